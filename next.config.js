@@ -24,8 +24,9 @@ const nextConfig = {
   // Add trailing slashes for proper GitHub Pages routing
   trailingSlash: true,
   
-  // Base path configuration - uncomment and set if deploying to a subdirectory
-  // basePath: '/your-repo-name',
+  // Base path configuration - set NEXT_PUBLIC_BASE_PATH (e.g. '/your-repo-name')
+  // if deploying to a subdirectory. Also used for absolute URLs in feeds.
+  basePath: process.env.NEXT_PUBLIC_BASE_PATH || '',
   
   // Disable x-powered-by header for security
   poweredByHeader: false,
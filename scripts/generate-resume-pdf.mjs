@@ -0,0 +1,109 @@
+/**
+ * Résumé PDF
+ *
+ * Runs after `next build` (npm "postbuild") and prints
+ * out/en/resume/index.html (the default locale's page) to out/resume.pdf
+ * with headless Chrome, so the downloadable CV is always generated from
+ * the same content as the site.
+ *
+ * The static export is served from a throwaway local HTTP server (mounted
+ * at NEXT_PUBLIC_BASE_PATH) because opening the HTML over file:// would
+ * break the absolute asset URLs.
+ *
+ * Chrome is downloaded by `puppeteer` on install; set
+ * PUPPETEER_EXECUTABLE_PATH to use a browser that is already installed.
+ */
+
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import path from 'node:path';
+import puppeteer from 'puppeteer';
+
+const outDir = path.resolve('out');
+const basePath = (process.env.NEXT_PUBLIC_BASE_PATH || '').replace(/\/+$/, '');
+const pdfPath = path.join(outDir, 'resume.pdf');
+// DEFAULT_LOCALE in src/lib/i18n/config.ts
+const resumePath = `${basePath}/en/resume/`;
+
+const contentTypes = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+/**
+ * Maps a request path to a file in out/, or null when it is outside
+ * the base path or the export directory
+ */
+async function resolveFile(urlPath) {
+  const pathname = decodeURIComponent(urlPath.split('?')[0]);
+  if (!pathname.startsWith(`${basePath}/`)) return null;
+
+  let file = path.join(outDir, pathname.slice(basePath.length));
+  if (!file.startsWith(outDir)) return null;
+
+  try {
+    if ((await stat(file)).isDirectory()) file = path.join(file, 'index.html');
+    await stat(file);
+    return file;
+  } catch {
+    return null;
+  }
+}
+
+function startServer() {
+  const server = createServer(async (request, response) => {
+    const file = await resolveFile(request.url || '/');
+    if (!file) {
+      response.writeHead(404).end();
+      return;
+    }
+    response.writeHead(200, {
+      'Content-Type': contentTypes[path.extname(file)] || 'application/octet-stream',
+    });
+    createReadStream(file).pipe(response);
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+async function main() {
+  if (!(await resolveFile(resumePath))) {
+    throw new Error('out/en/resume/index.html not found - run `next build` first');
+  }
+
+  const server = await startServer();
+  const { port } = server.address();
+  // Ubuntu 24.04 CI runners block Chrome's user-namespace sandbox; the page
+  // is our own build output, so running unsandboxed there is acceptable
+  const browser = await puppeteer.launch({ args: process.env.CI ? ['--no-sandbox'] : [] });
+
+  try {
+    const page = await browser.newPage();
+    await page.goto(`http://127.0.0.1:${port}${resumePath}`, { waitUntil: 'networkidle0' });
+    await page.emulateMediaType('print');
+    await page.pdf({
+      path: pdfPath,
+      printBackground: true,
+      preferCSSPageSize: true,
+    });
+  } finally {
+    await browser.close();
+    server.close();
+  }
+
+  console.log(`Résumé PDF written to ${path.relative(process.cwd(), pdfPath)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,295 @@
+/**
+ * Security Headers
+ *
+ * Runs after `next build` (npm "postbuild") and hardens the static export
+ * in out/, since a static host sends no security headers of its own:
+ *
+ * - Hashes every inline <script>, <style> and style="" attribute per page
+ *   and injects a strict Content-Security-Policy <meta> tag (no
+ *   'unsafe-inline'; style attributes are allowed by hash via
+ *   'unsafe-hashes')
+ * - Adds Subresource Integrity (sha384) to bundled scripts, script
+ *   preloads and stylesheets referenced from the HTML. Chunks that webpack
+ *   loads later at runtime are covered by `script-src 'self'` only.
+ * - Writes out/_headers (Netlify, Cloudflare Pages) and
+ *   out/nginx-security-headers.conf with HSTS, Referrer-Policy,
+ *   Permissions-Policy, COOP/COEP/CORP and each page's CSP, plus
+ *   frame-ancestors, which browsers ignore in <meta>
+ *
+ * GitHub Pages cannot set headers, so there the <meta> policy is all that
+ * applies.
+ *
+ * Fails with a list of violations when a page contains markup that would
+ * need 'unsafe-inline' (inline event handlers, javascript: URLs).
+ *
+ * Environment (the same values `next build` used):
+ * - NEXT_PUBLIC_BASE_PATH
+ * - NEXT_PUBLIC_CONTACT_ENDPOINT / NEXT_PUBLIC_CONTACT_TRANSPORT, to allow
+ *   the contact form endpoint in connect-src
+ *
+ * Safe to run more than once: existing CSP tags and integrity attributes
+ * are replaced.
+ */
+
+import { createHash } from 'node:crypto';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const outDir = path.resolve('out');
+const basePath = (process.env.NEXT_PUBLIC_BASE_PATH || '').replace(/\/+$/, '');
+
+// Keep in sync with siteConfig.contact.mockEndpoint (src/lib/site.ts)
+const MOCK_CONTACT_ENDPOINT = 'http://localhost:8787/contact';
+
+const SCRIPT_RE = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+const STYLE_RE = /<style\b([^>]*)>([\s\S]*?)<\/style>/gi;
+const STYLE_ATTR_RE = /\sstyle="([^"]*)"/gi;
+const EVENT_HANDLER_RE = /<[a-z][^>]*?\s(on[a-z]+)\s*=/gi;
+const JAVASCRIPT_URL_RE = /\s(?:href|src|action|formaction)\s*=\s*["']?\s*javascript:/i;
+const CSP_META_RE = /<meta http-equiv="Content-Security-Policy"[^>]*>/gi;
+
+// Script types the browser executes; JSON-LD and other data blocks are exempt
+const EXECUTABLE_TYPES = ['', 'text/javascript', 'application/javascript', 'module'];
+
+const COMMON_HEADERS = {
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Referrer-Policy': 'strict-origin-when-cross-origin',
+  'Permissions-Policy':
+    'accelerometer=(), browsing-topics=(), camera=(), geolocation=(), gyroscope=(), magnetometer=(), microphone=(), payment=(), usb=()',
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+  'Cross-Origin-Resource-Policy': 'same-origin',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+};
+
+function hash(algorithm, content) {
+  return `'${algorithm}-${createHash(algorithm).update(content).digest('base64')}'`;
+}
+
+/**
+ * Attribute values are hashed after entity decoding, as the browser does
+ */
+function decodeEntities(value) {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function getAttribute(attributes, name) {
+  const match = new RegExp(`\\s${name}=(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(attributes);
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function contactOrigin() {
+  const endpoint =
+    process.env.NEXT_PUBLIC_CONTACT_ENDPOINT ||
+    (process.env.NEXT_PUBLIC_CONTACT_TRANSPORT === 'mock' ? MOCK_CONTACT_ENDPOINT : '');
+  return endpoint ? new URL(endpoint).origin : undefined;
+}
+
+async function findHtmlFiles(dir) {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) return findHtmlFiles(file);
+      return entry.name.endsWith('.html') ? [file] : [];
+    })
+  );
+  return files.flat();
+}
+
+/**
+ * URL path a file is served at: out/blog/index.html -> /blog/
+ */
+function urlPath(file) {
+  const relative = path.relative(outDir, file).split(path.sep).join('/');
+  return `${basePath}/${relative.replace(/(^|\/)index\.html$/, '$1')}`;
+}
+
+function buildPolicy({ scriptHashes, styleHashes, styleAttributeHashes }) {
+  const connect = ["'self'", contactOrigin()].filter(Boolean);
+  const styles = ["'self'", ...styleHashes];
+  if (styleAttributeHashes.length > 0) {
+    styles.push("'unsafe-hashes'", ...styleAttributeHashes);
+  }
+
+  return [
+    "default-src 'self'",
+    `script-src 'self' ${scriptHashes.join(' ')}`.trim(),
+    `style-src ${styles.join(' ')}`,
+    "img-src 'self' data:",
+    "font-src 'self'",
+    `connect-src ${connect.join(' ')}`,
+    "worker-src 'self'",
+    "object-src 'none'",
+    "base-uri 'none'",
+    "form-action 'self'",
+    'upgrade-insecure-requests',
+  ].join('; ');
+}
+
+/**
+ * Adds integrity="sha384-..." to a same-origin script or stylesheet tag
+ */
+async function addIntegrity(tag, url, missing) {
+  if (!url.startsWith(`${basePath}/`) || url.startsWith('//')) return tag;
+
+  const file = path.join(outDir, decodeURIComponent(url.slice(basePath.length).split(/[?#]/)[0]));
+  let content;
+  try {
+    content = await readFile(file);
+  } catch {
+    missing.push(url);
+    return tag;
+  }
+
+  const integrity = hash('sha384', content).slice(1, -1);
+  const cleaned = tag.replace(/\sintegrity="[^"]*"/i, '');
+  return cleaned.replace(/\s*(\/?)>$/, ` integrity="${integrity}"$1>`);
+}
+
+async function replaceAsync(text, pattern, replacer) {
+  const replacements = await Promise.all(
+    Array.from(text.matchAll(pattern), (match) => replacer(...match))
+  );
+  let index = 0;
+  return text.replace(pattern, () => replacements[index++]);
+}
+
+async function processPage(file, violations) {
+  const page = urlPath(file);
+  let html = (await readFile(file, 'utf8')).replace(CSP_META_RE, '');
+
+  const scriptHashes = new Set();
+  const styleHashes = new Set();
+  const styleAttributeHashes = new Set();
+
+  for (const [, attributes, content] of html.matchAll(SCRIPT_RE)) {
+    const type = (getAttribute(attributes, 'type') ?? '').toLowerCase();
+    if (getAttribute(attributes, 'src') === undefined && EXECUTABLE_TYPES.includes(type)) {
+      scriptHashes.add(hash('sha256', content));
+    }
+  }
+  for (const [, , content] of html.matchAll(STYLE_RE)) {
+    styleHashes.add(hash('sha256', content));
+  }
+
+  // Attributes are checked with script and style bodies blanked out, so
+  // markup inside the RSC payload is not mistaken for real elements
+  const markup = html.replace(SCRIPT_RE, '<script$1></script>').replace(STYLE_RE, '<style$1></style>');
+  for (const [, value] of markup.matchAll(STYLE_ATTR_RE)) {
+    styleAttributeHashes.add(hash('sha256', decodeEntities(value)));
+  }
+  for (const [, handler] of markup.matchAll(EVENT_HANDLER_RE)) {
+    violations.push(`${page}: inline event handler "${handler}" needs 'unsafe-inline'`);
+  }
+  if (JAVASCRIPT_URL_RE.test(markup)) {
+    violations.push(`${page}: javascript: URL needs 'unsafe-inline'`);
+  }
+
+  const missing = [];
+  html = await replaceAsync(html, /<script\b[^>]*\ssrc="([^"]+)"[^>]*>/gi, (tag, url) =>
+    addIntegrity(tag, url, missing)
+  );
+  html = await replaceAsync(html, /<link\b[^>]*>/gi, (tag) => {
+    const rel = (getAttribute(tag, 'rel') ?? '').toLowerCase();
+    const as = (getAttribute(tag, 'as') ?? '').toLowerCase();
+    const href = getAttribute(tag, 'href');
+    const subresource = rel === 'stylesheet' || (rel === 'preload' && as === 'script');
+    return subresource && href ? addIntegrity(tag, href, missing) : tag;
+  });
+  for (const url of missing) {
+    violations.push(`${page}: ${url} is referenced but not in out/, so it has no integrity hash`);
+  }
+
+  const policy = buildPolicy({
+    scriptHashes: [...scriptHashes],
+    styleHashes: [...styleHashes],
+    styleAttributeHashes: [...styleAttributeHashes],
+  });
+  const meta = `<meta http-equiv="Content-Security-Policy" content="${policy}"/>`;
+
+  // Right after <meta charset> so the policy applies before any script
+  html = html.replace(/<head>(\s*<meta charSet="utf-8"\/>)?/i, (head) => `${head}${meta}`);
+  await writeFile(file, html);
+
+  return {
+    page,
+    policy,
+    inline: scriptHashes.size + styleHashes.size + styleAttributeHashes.size,
+  };
+}
+
+function renderNetlifyHeaders(pages) {
+  const block = (pattern, headers) =>
+    [pattern, ...Object.entries(headers).map(([name, value]) => `  ${name}: ${value}`)].join('\n');
+
+  return `${[
+    '# Generated by scripts/generate-security-headers.mjs',
+    block(`${basePath}/*`, COMMON_HEADERS),
+    ...pages.map(({ page, policy }) =>
+      block(page, { 'Content-Security-Policy': `${policy}; frame-ancestors 'none'` })
+    ),
+  ].join('\n\n')}\n`;
+}
+
+function renderNginxSnippet(pages) {
+  const addHeaders = (headers, indent) =>
+    Object.entries(headers).map(
+      ([name, value]) => `${indent}add_header ${name} "${value}" always;`
+    );
+
+  // add_header in a location replaces the server-level ones, so each
+  // location repeats the common headers
+  return `${[
+    '# Generated by scripts/generate-security-headers.mjs',
+    '# Include inside the server { } block that serves out/',
+    '',
+    ...addHeaders(COMMON_HEADERS, ''),
+    ...pages.flatMap(({ page, policy }) => [
+      '',
+      `location = ${page.endsWith('/') ? `${page}index.html` : page} {`,
+      ...addHeaders(
+        { ...COMMON_HEADERS, 'Content-Security-Policy': `${policy}; frame-ancestors 'none'` },
+        '    '
+      ),
+      '}',
+    ]),
+  ].join('\n')}\n`;
+}
+
+async function main() {
+  const files = await findHtmlFiles(outDir).catch(() => {
+    throw new Error('out/ not found - run `next build` first');
+  });
+
+  const violations = [];
+  const pages = [];
+  for (const file of files.sort()) {
+    pages.push(await processPage(file, violations));
+  }
+
+  await writeFile(path.join(outDir, '_headers'), renderNetlifyHeaders(pages));
+  await writeFile(path.join(outDir, 'nginx-security-headers.conf'), renderNginxSnippet(pages));
+
+  const inline = pages.reduce((total, page) => total + page.inline, 0);
+  console.log(
+    `Content-Security-Policy added to ${pages.length} pages (${inline} inline hashes); wrote out/_headers and out/nginx-security-headers.conf`
+  );
+
+  if (violations.length > 0) {
+    console.error(`\n${violations.length} CSP violation(s):`);
+    for (const violation of violations) console.error(`  - ${violation}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,98 @@
+/**
+ * Mock Contact Endpoint
+ *
+ * Local stand-in for the contact form endpoint, speaking the same protocol
+ * as the HTTP transport (src/lib/contact/transports.ts). Received messages
+ * are printed to the console.
+ *
+ * Usage:
+ *   npm run contact:mock
+ *   NEXT_PUBLIC_CONTACT_TRANSPORT=mock npm run dev
+ *
+ * Failure modes, to exercise retries and error messages:
+ *   MOCK_CONTACT_MODE=flaky    every other request answers 503
+ *   MOCK_CONTACT_MODE=slow     responds after 15 s (past the client timeout)
+ *   MOCK_CONTACT_MODE=limited  answers 429 with Retry-After: 2
+ *   MOCK_CONTACT_MODE=reject   answers 422 with a validation error
+ *
+ * PORT overrides the default port (8787).
+ *
+ * Spam signals (honeypot, startedAt, proof-of-work stamp) are logged but
+ * not checked; a real receiver should run them through verifySubmission()
+ * from src/lib/contact/verify.ts.
+ */
+
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT || 8787);
+const mode = process.env.MOCK_CONTACT_MODE || 'ok';
+let requestCount = 0;
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => {
+      data += chunk;
+    });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  // The site runs on another origin (next dev on :3000)
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/contact') {
+    send(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  requestCount++;
+
+  let message;
+  try {
+    message = JSON.parse(await readBody(req));
+  } catch {
+    send(res, 400, { error: 'Body must be JSON' });
+    return;
+  }
+
+  if (mode === 'flaky' && requestCount % 2 === 1) {
+    send(res, 503, { error: 'Temporarily unavailable' });
+    return;
+  }
+  if (mode === 'slow') {
+    await new Promise((resolve) => setTimeout(resolve, 15_000));
+  }
+  if (mode === 'limited') {
+    send(res, 429, { error: 'Too many requests' }, { 'Retry-After': '2' });
+    return;
+  }
+  if (mode === 'reject') {
+    send(res, 422, { errors: [{ message: 'This form is not accepting submissions.' }] });
+    return;
+  }
+
+  console.log(`\n[${new Date().toISOString()}] Message #${requestCount}`);
+  console.log(JSON.stringify(message, null, 2));
+  send(res, 200, { ok: true });
+});
+
+server.listen(port, () => {
+  console.log(`Mock contact endpoint on http://localhost:${port}/contact (mode: ${mode})`);
+});
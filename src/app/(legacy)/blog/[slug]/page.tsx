@@ -0,0 +1,30 @@
+/**
+ * Legacy Blog Post Page
+ *
+ * Forwards /blog/<slug>/ to /<locale>/blog/<slug>/.
+ */
+
+import { notFound } from 'next/navigation';
+import { LocaleRedirect } from '@/components/LocaleRedirect';
+import { getAllPosts, getPost, toStaticParams } from '@/lib/content/posts';
+
+interface LegacyPostPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Only the slugs returned below exist in the static export
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return toStaticParams('slug', getAllPosts().map((post) => post.slug));
+}
+
+export default async function LegacyPostPage({ params }: LegacyPostPageProps) {
+  const { slug } = await params;
+
+  if (!getPost(slug)) {
+    notFound();
+  }
+
+  return <LocaleRedirect path={`/blog/${slug}/`} />;
+}
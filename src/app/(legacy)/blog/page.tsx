@@ -0,0 +1,11 @@
+/**
+ * Legacy Blog Index Page
+ *
+ * Forwards /blog/ to /<locale>/blog/.
+ */
+
+import { LocaleRedirect } from '@/components/LocaleRedirect';
+
+export default function LegacyBlogPage() {
+  return <LocaleRedirect path="/blog/" />;
+}
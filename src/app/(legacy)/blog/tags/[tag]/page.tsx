@@ -0,0 +1,30 @@
+/**
+ * Legacy Tag Archive Page
+ *
+ * Forwards /blog/tags/<tag>/ to /<locale>/blog/tags/<tag>/.
+ */
+
+import { notFound } from 'next/navigation';
+import { LocaleRedirect } from '@/components/LocaleRedirect';
+import { getAllTags, getPostsByTag, toStaticParams } from '@/lib/content/posts';
+
+interface LegacyTagPageProps {
+  params: Promise<{ tag: string }>;
+}
+
+// Only the tags returned below exist in the static export
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return toStaticParams('tag', getAllTags().map(({ tag }) => tag));
+}
+
+export default async function LegacyTagPage({ params }: LegacyTagPageProps) {
+  const { tag } = await params;
+
+  if (getPostsByTag(tag).length === 0) {
+    notFound();
+  }
+
+  return <LocaleRedirect path={`/blog/tags/${tag}/`} />;
+}
@@ -0,0 +1,29 @@
+/**
+ * Legacy Root Layout
+ *
+ * Root layout for the unprefixed URLs that existed before localization
+ * (/, /blog/, /projects/<slug>/, ...). Each page only forwards to the
+ * visitor's locale (see LocaleRedirect), so this layout carries no theme,
+ * fonts or background, and the pages are kept out of search indexes.
+ */
+
+import type { Metadata } from 'next';
+import { DEFAULT_LOCALE } from '@/lib/i18n';
+import { absoluteUrl, siteConfig } from '@/lib/site';
+
+export const metadata: Metadata = {
+  metadataBase: new URL(absoluteUrl('/')),
+  title: siteConfig.title,
+  robots: {
+    index: false,
+    follow: true,
+  },
+};
+
+export default function LegacyLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang={DEFAULT_LOCALE}>
+      <body>{children}</body>
+    </html>
+  );
+}
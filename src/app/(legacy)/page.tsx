@@ -0,0 +1,11 @@
+/**
+ * Legacy Home Page
+ *
+ * Forwards / to /<locale>/.
+ */
+
+import { LocaleRedirect } from '@/components/LocaleRedirect';
+
+export default function LegacyHomePage() {
+  return <LocaleRedirect path="/" />;
+}
@@ -0,0 +1,25 @@
+/**
+ * Legacy Project Detail Page
+ *
+ * Forwards /projects/<slug>/ to /<locale>/projects/<slug>/.
+ */
+
+import { LocaleRedirect } from '@/components/LocaleRedirect';
+import { projects } from '@/lib/content';
+
+interface LegacyProjectPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Only the slugs returned below exist in the static export
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return projects.map((project) => ({ slug: project.slug }));
+}
+
+export default async function LegacyProjectPage({ params }: LegacyProjectPageProps) {
+  const { slug } = await params;
+
+  return <LocaleRedirect path={`/projects/${slug}/`} />;
+}
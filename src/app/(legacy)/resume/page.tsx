@@ -0,0 +1,11 @@
+/**
+ * Legacy Résumé Page
+ *
+ * Forwards /resume/ to /<locale>/resume/.
+ */
+
+import { LocaleRedirect } from '@/components/LocaleRedirect';
+
+export default function LegacyResumePage() {
+  return <LocaleRedirect path="/resume/" />;
+}
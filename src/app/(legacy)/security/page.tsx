@@ -0,0 +1,12 @@
+/**
+ * Legacy Security Policy Page
+ *
+ * Forwards /security/ to /<locale>/security/. security.txt links the
+ * default locale's page directly.
+ */
+
+import { LocaleRedirect } from '@/components/LocaleRedirect';
+
+export default function LegacySecurityPage() {
+  return <LocaleRedirect path="/security/" />;
+}
@@ -0,0 +1,23 @@
+/**
+ * /.well-known/security.txt - RFC 9116 security contact
+ *
+ * Rendered once at build time and written to out/.well-known/security.txt.
+ * Fails the build when Expires is too close (see lib/securityTxt) and is
+ * clearsigned when a signing key is configured (see lib/content/pgp).
+ */
+
+import { clearsign, getPgpKey } from '@/lib/content/pgp';
+import { checkSecurityTxtExpiry, renderSecurityTxt } from '@/lib/securityTxt';
+
+export const dynamic = 'force-static';
+
+export async function GET() {
+  checkSecurityTxtExpiry();
+
+  const text = renderSecurityTxt(await getPgpKey());
+  const body = (await clearsign(text)) ?? text;
+
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
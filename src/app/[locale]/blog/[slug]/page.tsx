@@ -0,0 +1,90 @@
+/**
+ * Blog Post Page
+ *
+ * Statically generated page for every published post in content/posts.
+ * MDX is compiled and syntax-highlighted at build time, so the exported
+ * HTML ships no MDX runtime.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { Header, BlogPost, Footer } from '@/components';
+import { getAllPosts, getPost, renderPost, toStaticParams } from '@/lib/content/posts';
+import type { Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+import { getAlternates, getOpenGraphLocales } from '@/lib/i18n/metadata';
+import { ogImageMetadata, ogImagePaths } from '@/lib/og';
+
+interface PostPageProps {
+  params: Promise<{ locale: Locale; slug: string }>;
+}
+
+// Only the slugs returned below exist in the static export
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return toStaticParams('slug', getAllPosts().map((post) => post.slug));
+}
+
+/**
+ * Per-post metadata for search engines and social sharing
+ */
+export async function generateMetadata({ params }: PostPageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const post = getPost(slug);
+
+  if (!post) {
+    return {};
+  }
+
+  const { t } = getTranslator(locale);
+  const title = t('meta.titleSuffix', { title: post.title });
+  const image = ogImageMetadata(ogImagePaths.post(post.slug), post.title);
+
+  return {
+    title,
+    description: post.summary,
+    keywords: post.tags,
+    alternates: getAlternates(locale, `/blog/${post.slug}/`),
+    openGraph: {
+      type: 'article',
+      ...getOpenGraphLocales(locale),
+      title,
+      description: post.summary,
+      siteName: t('meta.siteName'),
+      publishedTime: post.date,
+      modifiedTime: post.updated ?? post.date,
+      tags: post.tags,
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description: post.summary,
+      images: [image],
+    },
+  };
+}
+
+export default async function PostPage({ params }: PostPageProps) {
+  const { locale, slug } = await params;
+  const post = getPost(slug);
+
+  if (!post) {
+    notFound();
+  }
+
+  const content = await renderPost(post);
+
+  return (
+    <>
+      <Header />
+
+      <main id="main-content" role="main">
+        <BlogPost locale={locale} post={post}>{content}</BlogPost>
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Blog Index Page
+ *
+ * Lists every published write-up from content/posts, newest first,
+ * with a tag cloud linking to the tag archives.
+ */
+
+import type { Metadata } from 'next';
+import { Header, PostList, Footer } from '@/components';
+import { getAllPosts, getAllTags } from '@/lib/content/posts';
+import type { Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+import { getAlternates, getOpenGraphLocales } from '@/lib/i18n/metadata';
+import { ogImageMetadata, ogImagePaths } from '@/lib/og';
+import { siteConfig } from '@/lib/site';
+
+interface BlogPageProps {
+  params: Promise<{ locale: Locale }>;
+}
+
+export async function generateMetadata({ params }: BlogPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const { t } = getTranslator(locale);
+  const title = t('blog.metaTitle');
+  const description = t('blog.metaDescription');
+  const image = ogImageMetadata(ogImagePaths.home, siteConfig.title);
+
+  return {
+    title,
+    description,
+    alternates: getAlternates(locale, '/blog/'),
+    openGraph: {
+      type: 'website',
+      ...getOpenGraphLocales(locale),
+      title,
+      description,
+      siteName: t('meta.siteName'),
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function BlogPage({ params }: BlogPageProps) {
+  const { locale } = await params;
+  const { t } = getTranslator(locale);
+
+  return (
+    <>
+      <Header />
+
+      <main id="main-content" role="main">
+        <PostList
+          locale={locale}
+          title={t('blog.title')}
+          description={t('blog.description')}
+          posts={getAllPosts()}
+          tags={getAllTags()}
+        />
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Tag Archive Page
+ *
+ * Statically generated list of posts for every tag used by a published post.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { Header, PostList, Footer } from '@/components';
+import { getAllTags, getPostsByTag, toStaticParams } from '@/lib/content/posts';
+import type { Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+import { getAlternates, getOpenGraphLocales } from '@/lib/i18n/metadata';
+import { ogImageMetadata, ogImagePaths } from '@/lib/og';
+import { siteConfig } from '@/lib/site';
+
+interface TagPageProps {
+  params: Promise<{ locale: Locale; tag: string }>;
+}
+
+// Only the tags returned below exist in the static export
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return toStaticParams('tag', getAllTags().map(({ tag }) => tag));
+}
+
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const { locale, tag } = await params;
+  const { t } = getTranslator(locale);
+  const title = t('blog.tagMetaTitle', { tag });
+  const description = t('blog.tagMetaDescription', { tag });
+
+  return {
+    title,
+    description,
+    alternates: getAlternates(locale, `/blog/tags/${tag}/`),
+    openGraph: {
+      type: 'website',
+      ...getOpenGraphLocales(locale),
+      title,
+      description,
+      siteName: t('meta.siteName'),
+      images: [ogImageMetadata(ogImagePaths.home, siteConfig.title)],
+    },
+  };
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const { locale, tag } = await params;
+  const { t } = getTranslator(locale);
+  const posts = getPostsByTag(tag);
+
+  if (posts.length === 0) {
+    notFound();
+  }
+
+  return (
+    <>
+      <Header />
+
+      <main id="main-content" role="main">
+        <PostList
+          locale={locale}
+          title={`#${tag}`}
+          description={t('blog.tagDescription', { count: posts.length, tag })}
+          posts={posts}
+          tags={getAllTags()}
+          activeTag={tag}
+        />
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * Root Layout Component
+ * 
+ * This is the main layout wrapper for the entire application.
+ * It includes:
+ * - Google Fonts (Roboto) loading via next/font
+ * - Global metadata for SEO
+ * - Accessibility features (skip link, proper lang attribute)
+ * - Animated tri-colour bubbles background component
+ * - Pre-hydration theme script, so the stored theme applies before paint
+ * - Pre-hydration reveal script, so scroll-revealed content is hidden from
+ *   the first paint only when it will be revealed (lib/motion)
+ * - Design tokens stylesheet generated from src/styles/tokens.ts
+ * - Locale from the [locale] segment: <html lang>, localized metadata
+ *   with hreflang alternates, and the message catalog for I18nProvider
+ *
+ * Every locale is a separate root layout render, so switching locale is a
+ * full page load (see LocaleSwitcher).
+ */
+
+import type { Metadata, Viewport } from 'next';
+import { Roboto } from 'next/font/google';
+import { notFound } from 'next/navigation';
+import '@/styles/globals.css';
+import { AnimatedBubbles } from '@/components/AnimatedBubbles';
+import { CommandPalette } from '@/components/CommandPalette';
+import { I18nProvider } from '@/components/I18nProvider';
+import { TOKENS_CSS_PATH } from '@/lib/designTokens';
+import { isLocale, LOCALES } from '@/lib/i18n';
+import { getMessages, getTranslator } from '@/lib/i18n/messages';
+import { getAlternates, getOpenGraphLocales } from '@/lib/i18n/metadata';
+import { revealScript } from '@/lib/motion';
+import { ogImageMetadata, ogImagePaths } from '@/lib/og';
+import { absoluteUrl, siteConfig, withBasePath } from '@/lib/site';
+import { themeScript } from '@/lib/theme';
+import { colors } from '@/styles/tokens';
+
+// Configure Roboto font with all necessary weights
+const roboto = Roboto({
+  subsets: ['latin'],
+  weight: ['300', '400', '500', '700'],
+  display: 'swap', // Ensures text remains visible during font load
+  variable: '--font-roboto',
+});
+
+/**
+ * Viewport Configuration
+ * Separated from metadata as required by Next.js 14+
+ */
+export const viewport: Viewport = {
+  width: 'device-width',
+  initialScale: 1,
+  maximumScale: 5,
+};
+
+interface LocaleLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}
+
+// Only the locales in LOCALES are exported
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+/**
+ * Metadata Configuration for SEO
+ * 
+ * Includes:
+ * - Title and description for search engines, in the page's locale
+ * - Canonical URL and hreflang alternates for every locale
+ * - Open Graph tags for social media sharing
+ * - Twitter card configuration, with the generated home share image
+ * - RSS/Atom/JSON Feed autodiscovery (<link rel="alternate">)
+ *
+ * Pages override title, description and alternates with their own.
+ */
+export async function generateMetadata({ params }: LocaleLayoutProps): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  const { t } = getTranslator(locale);
+  const title = t('meta.title');
+  const description = t('meta.description');
+  const homeImage = ogImageMetadata(ogImagePaths.home, siteConfig.title);
+
+  return {
+    metadataBase: new URL(absoluteUrl('/')),
+    title,
+    description,
+    keywords: [
+      'Jagat Pradhan',
+      'Product Security Engineer',
+      'Cloud Security',
+      'SSDLC',
+      'SAST',
+      'SCA',
+      'CI/CD Security',
+      'Threat Modelling',
+      'Application Security',
+      'Cybersecurity',
+    ],
+    authors: [{ name: 'Jagat Pradhan' }],
+    creator: 'Jagat Pradhan',
+    openGraph: {
+      type: 'website',
+      ...getOpenGraphLocales(locale),
+      title,
+      description,
+      siteName: t('meta.siteName'),
+      images: [homeImage],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [homeImage],
+    },
+    alternates: getAlternates(locale, '/'),
+    robots: {
+      index: true,
+      follow: true,
+      googleBot: {
+        index: true,
+        follow: true,
+        'max-video-preview': -1,
+        'max-image-preview': 'large',
+        'max-snippet': -1,
+      },
+    },
+  };
+}
+
+/**
+ * Root Layout Component
+ * 
+ * Wraps all pages with common elements:
+ * - Skip link for keyboard navigation (accessibility)
+ * - Animated background bubbles
+ * - Main content area
+ */
+export default async function RootLayout({ children, params }: LocaleLayoutProps) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  const { t } = getTranslator(locale);
+
+  return (
+    // The theme script sets data-theme on <html> before React hydrates
+    <html lang={locale} className={roboto.variable} suppressHydrationWarning>
+      <head>
+        {/* Blocking theme script: runs before first paint to avoid a light flash */}
+        <script dangerouslySetInnerHTML={{ __html: themeScript }} />
+
+        {/* Blocking reveal script: enables reveal-on-scroll before first paint */}
+        <script dangerouslySetInnerHTML={{ __html: revealScript }} />
+
+        {/* CSS custom properties for both themes (app/tokens.css/route.ts) */}
+        <link rel="stylesheet" href={withBasePath(TOKENS_CSS_PATH)} />
+
+        {/* Preconnect to Google Fonts for performance */}
+        <link rel="preconnect" href="https://fonts.googleapis.com" />
+        <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
+        
+        {/* Favicon */}
+        <link rel="icon" href="/favicon.ico" sizes="any" />
+        
+        {/* Theme color for mobile browsers */}
+        <meta name="theme-color" content={colors.light.primary} />
+      </head>
+      <body className={roboto.className}>
+        {/* 
+          Skip Link for Accessibility
+          Allows keyboard users to skip navigation and go directly to main content
+          Hidden visually but accessible to screen readers and keyboard navigation
+        */}
+        <a href="#main-content" className="skip-link">
+          {t('common.skipToContent')}
+        </a>
+        
+        {/* 
+          Animated Bubbles Background
+          Decorative saffron, white and green bubbles that float gently
+          (blue in place of white in the dark theme, see bubblePalettes)
+          Drawn on a canvas; drift away from the mouse pointer
+        */}
+        <AnimatedBubbles interactive />
+        
+        {/* Main content wrapper */}
+        <div id="app-root">
+          <I18nProvider locale={locale} messages={getMessages(locale)}>
+            {children}
+
+            {/* Ctrl/⌘+K command palette and `?` shortcuts overlay */}
+            <CommandPalette />
+          </I18nProvider>
+        </div>
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Home Page - DevSecOps Portfolio
+ * 
+ * Main landing page that assembles all sections into a cohesive
+ * single-page portfolio website.
+ * 
+ * Page Structure:
+ * 1. Header - Fixed navigation with mobile menu
+ * 2. Hero/About - Introduction and professional summary
+ * 3. Experience - Employment history timeline
+ * 4. Skills - Technical expertise showcase
+ * 5. Certifications - Credentials with expiry status
+ * 6. Projects - Security POC projects gallery
+ * 7. Research - CVEs, advisories and bug bounty reports
+ * 8. Talks - Talks, workshops, podcasts and articles
+ * 9. Contact - Contact form and information
+ * 10. Footer - Links and copyright
+ * 
+ * SEO Optimization:
+ * - Semantic HTML structure (main, sections, articles)
+ * - Proper heading hierarchy (h1 -> h2 -> h3)
+ * - ARIA landmarks for accessibility
+ * - All interactive elements are keyboard accessible
+ * 
+ * Performance:
+ * - Components use lazy loading where appropriate
+ * - Intersection Observer for scroll animations
+ * - CSS animations use will-change for GPU acceleration
+ * - Images can be optimized with next/image (if added)
+ */
+
+import {
+  Header,
+  Hero,
+  Experience,
+  Skills,
+  Certifications,
+  Projects,
+  Research,
+  Talks,
+  Contact,
+  Footer,
+  JsonLd,
+} from '@/components';
+import { certifications, experience } from '@/lib/content';
+import { getPgpKey } from '@/lib/content/pgp';
+import { getResearchEntries } from '@/lib/content/research';
+import { warnExpiringCertifications } from '@/lib/certifications';
+import { currentIsoDate } from '@/lib/dates';
+import { currentYearMonth, getTotalYears } from '@/lib/experience';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+import { siteConfig } from '@/lib/site';
+import { getPersonSchema, getProfilePageSchema, toJsonLd } from '@/lib/structuredData';
+
+export default async function Home({ params }: { params: Promise<{ locale: Locale }> }) {
+  const { locale } = await params;
+
+  // Build date: durations, the Hero stat and certification status are fixed
+  // at build time so the prerendered HTML and client hydration always agree
+  const today = currentIsoDate();
+  const asOf = currentYearMonth();
+
+  // Warn once per build, not once per locale
+  if (locale === DEFAULT_LOCALE) warnExpiringCertifications(certifications, today);
+  const pgpKey = await getPgpKey();
+
+  return (
+    <>
+      {/* 
+        Structured Data
+        schema.org Person + ProfilePage built from the same content as the sections below
+      */}
+      <JsonLd data={toJsonLd(getProfilePageSchema(locale), getPersonSchema())} />
+
+      {/* 
+        Header Component
+        Fixed navigation bar that persists across the page
+        Includes mobile hamburger menu for responsive design
+      */}
+      <Header />
+      
+      {/* 
+        Main Content Area
+        Uses semantic main element for accessibility
+        id="main-content" for skip link navigation
+      */}
+      <main id="main-content" role="main">
+        {/* 
+          Hero/About Section
+          Primary introduction with animated elements
+          Contains: tagline, description, CTAs, quick stats
+        */}
+        <Hero
+          yearsOfExperience={
+            experience.length > 0
+              ? getTotalYears(experience, asOf)
+              : siteConfig.author.yearsOfExperience
+          }
+        />
+        
+        {/* 
+          Experience Section
+          Vertical timeline of roles from content/experience.json
+          Animated on scroll; long entries collapse
+        */}
+        <Experience asOf={asOf} />
+        
+        {/* 
+          Skills Section
+          Four-category grid of technical expertise
+          Animated on scroll with staggered card reveal
+        */}
+        <Skills />
+        
+        {/* 
+          Certifications Section
+          Active and expired credentials with verification links
+          Flags certifications that renew soon
+        */}
+        <Certifications asOf={today} />
+        
+        {/* 
+          Projects Section
+          Security POC showcase in card grid
+          Hover effects reveal detailed descriptions
+        */}
+        <Projects />
+        
+        {/* 
+          Research Section
+          CVEs, advisories and bug bounty reports imported from content/research/
+          Severity badges with sortable cards
+        */}
+        <Research entries={getResearchEntries()} />
+        
+        {/* 
+          Talks Section
+          Talks, workshops, podcasts and articles grouped by year
+          Local slide PDFs open in an inline page-by-page viewer
+        */}
+        <Talks />
+        
+        {/* 
+          Contact Section
+          Two-column layout: info + form
+          Form validation with accessible error messages
+          Optional OpenPGP encryption with the key published at /pgp.asc
+        */}
+        <Contact pgpKey={pgpKey} />
+      </main>
+      
+      {/* 
+        Footer Component
+        Site-wide footer with navigation and social links
+        Includes Indian tri-colour accent bar
+      */}
+      <Footer />
+    </>
+  );
+}
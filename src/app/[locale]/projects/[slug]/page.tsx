@@ -0,0 +1,90 @@
+/**
+ * Project Detail Page
+ *
+ * Statically generated page for every entry in content/projects.json.
+ * Compatible with `output: 'export'`: all slugs are known at build time
+ * via generateStaticParams and any other slug is a 404.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { Header, ProjectDetail, Footer, JsonLd } from '@/components';
+import { projects, getProject, getAdjacentProjects } from '@/lib/content';
+import type { Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+import { getAlternates, getOpenGraphLocales } from '@/lib/i18n/metadata';
+import { ogImageMetadata, ogImagePaths } from '@/lib/og';
+import { getPersonSchema, getProjectSchema, toJsonLd } from '@/lib/structuredData';
+
+interface ProjectPageProps {
+  params: Promise<{ locale: Locale; slug: string }>;
+}
+
+// Only the slugs returned below exist in the static export
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return projects.map((project) => ({ slug: project.slug }));
+}
+
+/**
+ * Per-project metadata for search engines and social sharing
+ */
+export async function generateMetadata({ params }: ProjectPageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const project = getProject(slug);
+
+  if (!project) {
+    return {};
+  }
+
+  const { t } = getTranslator(locale);
+  const title = t('meta.titleSuffix', { title: project.title });
+  const image = ogImageMetadata(ogImagePaths.project(project.slug), project.title);
+
+  return {
+    title,
+    description: project.longDescription,
+    keywords: [project.category, ...project.technologies],
+    alternates: getAlternates(locale, `/projects/${project.slug}/`),
+    openGraph: {
+      type: 'article',
+      ...getOpenGraphLocales(locale),
+      title,
+      description: project.description,
+      siteName: t('meta.siteName'),
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description: project.description,
+      images: [image],
+    },
+  };
+}
+
+export default async function ProjectPage({ params }: ProjectPageProps) {
+  const { locale, slug } = await params;
+  const project = getProject(slug);
+
+  if (!project) {
+    notFound();
+  }
+
+  const { previous, next } = getAdjacentProjects(slug);
+
+  return (
+    <>
+      <JsonLd data={toJsonLd(getProjectSchema(project, locale), getPersonSchema())} />
+
+      <Header />
+
+      <main id="main-content" role="main">
+        <ProjectDetail locale={locale} project={project} previous={previous} next={next} />
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * Résumé Page
+ *
+ * Print-optimised CV built from the portfolio content. `npm run build`
+ * also renders the default locale's page to out/resume.pdf (see
+ * scripts/generate-resume-pdf.mjs).
+ */
+
+import type { Metadata } from 'next';
+import { Header, Resume, Footer } from '@/components';
+import type { Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+import { getAlternates, getOpenGraphLocales } from '@/lib/i18n/metadata';
+import { ogImageMetadata, ogImagePaths } from '@/lib/og';
+import { siteConfig } from '@/lib/site';
+
+interface ResumePageProps {
+  params: Promise<{ locale: Locale }>;
+}
+
+export async function generateMetadata({ params }: ResumePageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const { t } = getTranslator(locale);
+  const title = t('resume.metaTitle');
+  const description = t('resume.metaDescription');
+  const image = ogImageMetadata(ogImagePaths.home, siteConfig.title);
+
+  return {
+    title,
+    description,
+    alternates: getAlternates(locale, '/resume/'),
+    openGraph: {
+      type: 'profile',
+      ...getOpenGraphLocales(locale),
+      title,
+      description,
+      siteName: t('meta.siteName'),
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function ResumePage({ params }: ResumePageProps) {
+  const { locale } = await params;
+
+  return (
+    <>
+      <Header />
+
+      <main id="main-content" role="main">
+        <Resume locale={locale} />
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Security Policy Page
+ *
+ * Vulnerability disclosure policy referenced by the `Policy` field of
+ * /.well-known/security.txt.
+ */
+
+import type { Metadata } from 'next';
+import { Header, SecurityPolicy, Footer } from '@/components';
+import { getPgpKey } from '@/lib/content/pgp';
+import type { Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+import { getAlternates, getOpenGraphLocales } from '@/lib/i18n/metadata';
+import { ogImageMetadata, ogImagePaths } from '@/lib/og';
+import { siteConfig } from '@/lib/site';
+
+interface SecurityPageProps {
+  params: Promise<{ locale: Locale }>;
+}
+
+export async function generateMetadata({ params }: SecurityPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const { t } = getTranslator(locale);
+  const title = t('security.metaTitle');
+  const description = t('security.metaDescription', {
+    site: siteConfig.url.replace(/^https?:\/\//, ''),
+  });
+  const image = ogImageMetadata(ogImagePaths.home, siteConfig.title);
+
+  return {
+    title,
+    description,
+    alternates: getAlternates(locale, '/security/'),
+    openGraph: {
+      type: 'website',
+      ...getOpenGraphLocales(locale),
+      title,
+      description,
+      siteName: t('meta.siteName'),
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function SecurityPage({ params }: SecurityPageProps) {
+  const { locale } = await params;
+  const pgpKey = await getPgpKey();
+
+  return (
+    <>
+      <Header />
+
+      <main id="main-content" role="main">
+        <SecurityPolicy locale={locale} pgpKey={pgpKey} />
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * /atom.xml - Atom 1.0 feed of posts and projects
+ *
+ * Rendered once at build time and written to out/atom.xml.
+ */
+
+import { getFeedItems, renderAtom } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+
+export function GET() {
+  return new Response(renderAtom(getFeedItems()), {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * /feed.json - JSON Feed 1.1 feed of posts and projects
+ *
+ * Rendered once at build time and written to out/feed.json.
+ */
+
+import { getFeedItems, renderJsonFeed } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+
+export function GET() {
+  return new Response(renderJsonFeed(getFeedItems()), {
+    headers: { 'Content-Type': 'application/feed+json; charset=utf-8' },
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * /feed.xml - RSS 2.0 feed of posts and projects
+ *
+ * Rendered once at build time and written to out/feed.xml.
+ */
+
+import { getFeedItems, renderRss } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+
+export function GET() {
+  return new Response(renderRss(getFeedItems()), {
+    headers: { 'Content-Type': 'application/rss+xml; charset=utf-8' },
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * /og/[...path] - Open Graph share images
+ *
+ * One PNG per entry in getOgImages(), rendered at build time and written
+ * to out/og/ (e.g. out/og/projects/my-project.png).
+ */
+
+import { getOgImages, renderOgImage } from '@/lib/og';
+
+interface OgImageRouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+export const dynamic = 'force-static';
+
+// Only the images returned below exist in the static export
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getOgImages().map((image) => ({
+    path: image.path.replace(/^\/og\//, '').split('/'),
+  }));
+}
+
+export async function GET(_request: Request, { params }: OgImageRouteContext) {
+  const { path } = await params;
+  const image = getOgImages().find((entry) => entry.path === `/og/${path.join('/')}`);
+
+  if (!image) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  return renderOgImage(image);
+}
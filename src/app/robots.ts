@@ -0,0 +1,24 @@
+/**
+ * /robots.txt
+ *
+ * Allows all crawlers and points them at the sitemap. URLs respect the
+ * configured site URL and basePath. Note that crawlers only read
+ * robots.txt from the origin root, so under a basePath this file is
+ * informational and the sitemap should also be submitted directly.
+ */
+
+import type { MetadataRoute } from 'next';
+import { absoluteUrl, siteConfig } from '@/lib/site';
+
+export const dynamic = 'force-static';
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+    },
+    sitemap: absoluteUrl('/sitemap.xml'),
+    host: siteConfig.url,
+  };
+}
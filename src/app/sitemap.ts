@@ -0,0 +1,95 @@
+/**
+ * /sitemap.xml
+ *
+ * Lists every statically generated route with absolute URLs (site URL +
+ * basePath from siteConfig), once per locale with hreflang alternates.
+ * `lastModified` is taken from content dates so the sitemap only changes
+ * when content does. Drafts are excluded because the loaders already drop
+ * them from production builds.
+ */
+
+import type { MetadataRoute } from 'next';
+import { projects } from '@/lib/content';
+import { getAllPosts, getAllTags, getPostsByTag } from '@/lib/content/posts';
+import { LOCALES, localizePath } from '@/lib/i18n';
+import { getLanguageAlternates } from '@/lib/i18n/metadata';
+import { absoluteUrl } from '@/lib/site';
+
+export const dynamic = 'force-static';
+
+/**
+ * Latest `updated ?? date` among entries, as a Date; undefined when
+ * none is dated
+ */
+function latest(entries: Array<{ date?: string; updated?: string }>): Date | undefined {
+  const dates = entries
+    .map((entry) => entry.updated ?? entry.date)
+    .filter((date): date is string => Boolean(date))
+    .sort();
+  return dates.length > 0 ? new Date(`${dates[dates.length - 1]}T00:00:00Z`) : undefined;
+}
+
+type Route = Omit<MetadataRoute.Sitemap[number], 'url' | 'alternates'> & { path: string };
+
+/**
+ * One entry per locale, each listing every locale (and x-default) as an
+ * hreflang alternate
+ */
+function localized({ path, ...route }: Route): MetadataRoute.Sitemap {
+  const languages = getLanguageAlternates(path);
+
+  return LOCALES.map((locale) => ({
+    ...route,
+    url: absoluteUrl(localizePath(locale, path)),
+    alternates: { languages },
+  }));
+}
+
+export default function sitemap(): MetadataRoute.Sitemap {
+  const posts = getAllPosts();
+
+  const routes: Route[] = [
+    {
+      path: '/',
+      lastModified: latest([...projects, ...posts]),
+      changeFrequency: 'monthly',
+      priority: 1,
+    },
+    ...projects.map((project) => ({
+      path: `/projects/${project.slug}/`,
+      lastModified: latest([project]),
+      changeFrequency: 'yearly' as const,
+      priority: 0.7,
+    })),
+    {
+      path: '/resume/',
+      changeFrequency: 'monthly',
+      priority: 0.6,
+    },
+    {
+      path: '/security/',
+      changeFrequency: 'yearly',
+      priority: 0.3,
+    },
+    {
+      path: '/blog/',
+      lastModified: latest(posts),
+      changeFrequency: 'weekly',
+      priority: 0.8,
+    },
+    ...posts.map((post) => ({
+      path: `/blog/${post.slug}/`,
+      lastModified: latest([post]),
+      changeFrequency: 'yearly' as const,
+      priority: 0.7,
+    })),
+    ...getAllTags().map(({ tag }) => ({
+      path: `/blog/tags/${tag}/`,
+      lastModified: latest(getPostsByTag(tag)),
+      changeFrequency: 'monthly' as const,
+      priority: 0.4,
+    })),
+  ];
+
+  return routes.flatMap(localized);
+}
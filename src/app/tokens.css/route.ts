@@ -0,0 +1,19 @@
+/**
+ * /tokens.css - design tokens as CSS custom properties
+ *
+ * Generated at build time from src/styles/tokens.ts and linked from the
+ * root layout. Fails the build when a token pair is below WCAG AA contrast
+ * (see lib/designTokens).
+ */
+
+import { checkContrast, renderTokensCss } from '@/lib/designTokens';
+
+export const dynamic = 'force-static';
+
+export function GET() {
+  checkContrast();
+
+  return new Response(renderTokensCss(), {
+    headers: { 'Content-Type': 'text/css; charset=utf-8' },
+  });
+}
@@ -2,94 +2,308 @@
 
 /**
  * AnimatedBubbles Component
- * 
- * Creates decorative floating bubbles in Indian tri-colours (saffron, white, green)
- * as subtle branding elements throughout the page.
- * 
+ *
+ * Creates decorative floating bubbles in saffron, white and green (saffron,
+ * blue and green in the dark theme) as subtle branding elements throughout
+ * the page.
+ *
  * Design Notes:
- * - Bubbles are positioned absolutely and float with CSS animations
- * - Low opacity ensures they don't distract from main content
- * - Multiple sizes and animation delays create organic, random feel
+ * - Bubbles are drawn on one fixed canvas behind the content
+ * - Layout comes from a seeded PRNG (lib/bubbles), so it is the same on every visit
+ * - Bubble count scales with the viewport and the device's memory
+ * - Colours come from the active theme's palette (bubblePalettes in styles/tokens)
+ * - Optional gentle repel from the pointer (mouse/pen only)
  * - Pointer-events disabled so they don't interfere with interactions
- * 
+ *
  * Accessibility:
  * - aria-hidden="true" hides decorative elements from screen readers
- * - Animations respect prefers-reduced-motion via global CSS
- * 
+ * - Reduced-motion visitors get a still frame
+ * - Hidden for prefers-contrast: high
+ *
  * Animation Logic:
- * - Uses CSS keyframe animations defined in globals.css
- * - Float animation: gentle up-down movement with slight rotation
- * - Different durations (5-8s) and delays prevent synchronized movement
+ * - One requestAnimationFrame loop, stopped while the tab is hidden, the
+ *   canvas is off-screen or reduced motion is on
+ * - Each bubble's gradient is pre-rendered to a sprite, so a frame is
+ *   only drawImage calls
+ * - Frame-budget guard: when frames run long, drop to half the bubbles,
+ *   then to a still frame
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef } from 'react';
 import styles from './AnimatedBubbles.module.css';
+import { useTheme } from '@/hooks/useTheme';
+import { REDUCED_MOTION_QUERY } from '@/lib/motion';
+import {
+  DEFAULT_BUBBLE_SEED,
+  generateBubbles,
+  getBubbleCount,
+  getFloatOffset,
+  getRepelOffset,
+  type Bubble,
+  type Offset,
+} from '@/lib/bubbles';
+import { bubblePalettes, type BubbleTokens } from '@/styles/tokens';
 
-interface Bubble {
-  id: number;
-  color: 'saffron' | 'white' | 'green';
-  size: number;
-  left: number;
-  top: number;
-  animationDuration: number;
-  animationDelay: number;
+interface AnimatedBubblesProps {
+  /** Seed for the bubble layout */
+  seed?: number;
+  /** Bubbles drift away from a mouse or pen pointer */
+  interactive?: boolean;
 }
 
+type Quality = 'full' | 'reduced' | 'static';
+
+// Sharper than this costs memory for no visible gain on soft bubbles
+const MAX_PIXEL_RATIO = 2;
+
+// Frame-budget guard: checked over this many frames, a step down happens
+// when drawing takes longer than DRAW_BUDGET_MS or frames come slower
+// than FRAME_BUDGET_MS (under ~30fps) on average
+const BUDGET_WINDOW = 60;
+const DRAW_BUDGET_MS = 4;
+const FRAME_BUDGET_MS = 34;
+
+// Longest step of the float clock, so a stalled frame does not jump
+const MAX_DELTA_S = 0.1;
+
+// Share of the remaining distance a repel offset covers each frame
+const REPEL_EASING = 0.1;
+
+const FINE_POINTER_QUERY = '(pointer: fine)';
+
 /**
- * Generates bubble configurations
- * Creates varied positions, sizes, and animation timings for natural appearance
+ * Pre-renders one bubble: a radial gradient lit from the top left (like
+ * `circle at 30% 30%`) with a soft glow, at the palette's opacity
  */
-function generateBubbles(count: number): Bubble[] {
-  const colors: Array<'saffron' | 'white' | 'green'> = ['saffron', 'white', 'green'];
-  
-  return Array.from({ length: count }, (_, i) => ({
-    id: i,
-    // Cycle through tri-colours
-    color: colors[i % 3],
-    // Random size between 30px and 120px
-    size: 30 + Math.random() * 90,
-    // Random horizontal position (0-100%)
-    left: Math.random() * 100,
-    // Random vertical position (0-100%)
-    top: Math.random() * 100,
-    // Animation duration between 5-8 seconds for varied movement
-    animationDuration: 5 + Math.random() * 3,
-    // Staggered delays up to 5 seconds
-    animationDelay: Math.random() * 5,
-  }));
+function createSprite(radius: number, tokens: BubbleTokens, pixelRatio: number): HTMLCanvasElement {
+  const size = Math.ceil((radius + tokens.glow) * 2 * pixelRatio);
+  const sprite = document.createElement('canvas');
+  sprite.width = size;
+  sprite.height = size;
+
+  const context = sprite.getContext('2d');
+  if (!context) return sprite;
+
+  const centre = size / 2;
+  const r = radius * pixelRatio;
+  const light = centre - 0.4 * r;
+  const gradient = context.createRadialGradient(light, light, 0, light, light, 2 * r);
+  gradient.addColorStop(0, `rgba(${tokens.rgb}, ${tokens.core})`);
+  gradient.addColorStop(1, `rgba(${tokens.rgb}, ${tokens.rim})`);
+
+  context.globalAlpha = tokens.opacity;
+  context.shadowBlur = tokens.glow * pixelRatio;
+  context.shadowColor = `rgba(${tokens.rgb}, ${tokens.core})`;
+  context.fillStyle = gradient;
+  context.beginPath();
+  context.arc(centre, centre, r, 0, 2 * Math.PI);
+  context.fill();
+
+  return sprite;
 }
 
-export const AnimatedBubbles: React.FC = () => {
-  // State to store bubble configurations
-  const [bubbles, setBubbles] = useState<Bubble[]>([]);
-  
-  // Generate bubbles on client-side only to avoid hydration mismatch
+function getDeviceMemory(): number | undefined {
+  return (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+}
+
+export const AnimatedBubbles: React.FC<AnimatedBubblesProps> = ({
+  seed = DEFAULT_BUBBLE_SEED,
+  interactive = false,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { theme } = useTheme();
+
+  // Latest palette, read by the animation; setPalette is set by the effect below
+  const paletteRef = useRef<BubbleTokens[]>(bubblePalettes.light);
+  const setPaletteRef = useRef<(palette: BubbleTokens[]) => void>(undefined);
+
+  useEffect(() => {
+    const palette = bubblePalettes[theme ?? 'light'];
+    paletteRef.current = palette;
+    setPaletteRef.current?.(palette);
+  }, [theme]);
+
   useEffect(() => {
-    setBubbles(generateBubbles(15)); // 15 bubbles for subtle effect
-  }, []);
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const reducedMotion = window.matchMedia(REDUCED_MOTION_QUERY);
+    const finePointer = window.matchMedia(FINE_POINTER_QUERY);
+
+    let width = 0;
+    let height = 0;
+    let pixelRatio = 1;
+    let bubbles: Bubble[] = [];
+    let sprites: HTMLCanvasElement[] = [];
+    let repel: Offset[] = [];
+    let pointer: { x: number; y: number } | undefined;
+
+    let quality: Quality = 'full';
+    let inView = true;
+    let frame = 0;
+    let resizeFrame = 0;
+    let clock = 0;
+    let lastFrame: number | undefined;
+    let sampleFrames = 0;
+    let sampleDraw = 0;
+    let sampleInterval = 0;
+
+    const buildSprites = () => {
+      const palette = paletteRef.current;
+      sprites = bubbles.map((bubble, index) =>
+        createSprite(bubble.radius, palette[index % palette.length], pixelRatio)
+      );
+    };
+
+    const draw = () => {
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+      const count = quality === 'reduced' ? Math.ceil(bubbles.length / 2) : bubbles.length;
+      for (let index = 0; index < count; index++) {
+        const bubble = bubbles[index];
+        const float = getFloatOffset(bubble, clock);
+        const x = bubble.x * width + float.dx;
+        const y = bubble.y * height + float.dy;
+
+        const push = repel[index];
+        const target = pointer && quality !== 'static'
+          ? getRepelOffset(x, y, pointer.x, pointer.y)
+          : { dx: 0, dy: 0 };
+        push.dx += (target.dx - push.dx) * REPEL_EASING;
+        push.dy += (target.dy - push.dy) * REPEL_EASING;
+
+        const sprite = sprites[index];
+        const size = sprite.width / pixelRatio;
+        context.drawImage(sprite, x + push.dx - size / 2, y + push.dy - size / 2, size, size);
+      }
+    };
+
+    const shouldAnimate = () =>
+      quality !== 'static' && inView && !document.hidden && !reducedMotion.matches;
+
+    /**
+     * Steps down a quality level when the last BUDGET_WINDOW frames were
+     * over budget on average
+     */
+    const checkBudget = (drawTime: number, interval: number) => {
+      sampleFrames++;
+      sampleDraw += drawTime;
+      sampleInterval += interval;
+      if (sampleFrames < BUDGET_WINDOW) return;
+
+      if (sampleDraw / sampleFrames > DRAW_BUDGET_MS || sampleInterval / sampleFrames > FRAME_BUDGET_MS) {
+        quality = quality === 'full' ? 'reduced' : 'static';
+      }
+      sampleFrames = 0;
+      sampleDraw = 0;
+      sampleInterval = 0;
+    };
+
+    const tick = (now: number) => {
+      frame = 0;
+      const interval = lastFrame === undefined ? 0 : now - lastFrame;
+      lastFrame = now;
+      clock += Math.min(interval / 1000, MAX_DELTA_S);
+
+      const start = performance.now();
+      draw();
+      // The first frame after a (re)start has no interval to judge
+      if (interval > 0) checkBudget(performance.now() - start, interval);
+
+      update();
+    };
+
+    /**
+     * Starts or stops the loop to match visibility, reduced motion and
+     * quality. A stopped canvas keeps its last frame.
+     */
+    const update = () => {
+      if (shouldAnimate()) {
+        if (!frame) frame = window.requestAnimationFrame(tick);
+        return;
+      }
+
+      window.cancelAnimationFrame(frame);
+      frame = 0;
+      lastFrame = undefined;
+      sampleFrames = 0;
+      sampleDraw = 0;
+      sampleInterval = 0;
+    };
+
+    const resize = () => {
+      resizeFrame = 0;
+      width = window.innerWidth;
+      height = window.innerHeight;
+      pixelRatio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+
+      bubbles = generateBubbles(getBubbleCount(width, height, getDeviceMemory()), seed);
+      repel = bubbles.map(() => ({ dx: 0, dy: 0 }));
+      buildSprites();
+      draw();
+    };
+
+    setPaletteRef.current = () => {
+      buildSprites();
+      if (!frame) draw();
+    };
+
+    const handleResize = () => {
+      if (!resizeFrame) resizeFrame = window.requestAnimationFrame(resize);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.pointerType === 'touch' || !finePointer.matches) return;
+      pointer = { x: event.clientX, y: event.clientY };
+    };
+
+    const handlePointerOut = (event: PointerEvent) => {
+      if (!event.relatedTarget) pointer = undefined;
+    };
+
+    const observer = new IntersectionObserver(([entry]) => {
+      inView = entry.isIntersecting;
+      update();
+    });
+
+    resize();
+    update();
+    observer.observe(canvas);
+
+    window.addEventListener('resize', handleResize, { passive: true });
+    document.addEventListener('visibilitychange', update);
+    reducedMotion.addEventListener('change', update);
+    if (interactive) {
+      window.addEventListener('pointermove', handlePointerMove, { passive: true });
+      document.addEventListener('pointerout', handlePointerOut);
+    }
+
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.cancelAnimationFrame(resizeFrame);
+      observer.disconnect();
+      setPaletteRef.current = undefined;
+      window.removeEventListener('resize', handleResize);
+      document.removeEventListener('visibilitychange', update);
+      reducedMotion.removeEventListener('change', update);
+      window.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerout', handlePointerOut);
+    };
+  }, [seed, interactive]);
 
   return (
-    // Container spans full viewport, positioned behind content
-    <div 
-      className={styles.bubblesContainer}
+    // Canvas spans the full viewport, positioned behind content
+    <canvas
+      ref={canvasRef}
+      className={`${styles.bubblesCanvas} no-print`}
       aria-hidden="true" // Hide from screen readers (decorative)
       role="presentation"
-    >
-      {bubbles.map((bubble) => (
-        <div
-          key={bubble.id}
-          className={`${styles.bubble} ${styles[bubble.color]}`}
-          style={{
-            width: `${bubble.size}px`,
-            height: `${bubble.size}px`,
-            left: `${bubble.left}%`,
-            top: `${bubble.top}%`,
-            animationDuration: `${bubble.animationDuration}s`,
-            animationDelay: `${bubble.animationDelay}s`,
-          }}
-        />
-      ))}
-    </div>
+    />
   );
 };
 
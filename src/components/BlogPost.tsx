@@ -0,0 +1,110 @@
+/**
+ * BlogPost Component
+ *
+ * Layout for a single write-up at /blog/[slug]/.
+ *
+ * Features:
+ * - Header with date, reading time and tags
+ * - Table of contents built from the post's h2/h3 headings
+ * - Prose styles for compiled MDX, including Shiki code blocks
+ * - Interface copy in the page's locale; the post itself is marked up
+ *   with the content language
+ *
+ * Accessibility:
+ * - Single h1 per page; MDX headings start at h2
+ * - Table of contents is a labelled navigation landmark
+ * - Machine-readable <time> elements
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import styles from './BlogPost.module.css';
+import type { Post } from '@/lib/content';
+import { CONTENT_LOCALE, type Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+
+interface BlogPostProps {
+  locale: Locale;
+  post: Post;
+  children: React.ReactNode;
+}
+
+export const BlogPost: React.FC<BlogPostProps> = ({ locale, post, children }) => {
+  const { t, rich, formatDate, localizePath } = getTranslator(locale);
+
+  return (
+    <article className={styles.post} aria-labelledby="post-heading">
+      <div className={styles.container}>
+        {/* Breadcrumb */}
+        <nav className={styles.breadcrumb} aria-label={t('blog.breadcrumb')}>
+          <Link href={localizePath('/blog/')} className={styles.backLink}>
+            <span aria-hidden="true">←</span> {t('blog.allPosts')}
+          </Link>
+        </nav>
+
+        {/* Post Header */}
+        <header className={styles.header}>
+          <h1 id="post-heading" className={styles.title} lang={CONTENT_LOCALE}>
+            {post.title}
+          </h1>
+          <div className={styles.meta}>
+            <time dateTime={post.date}>{formatDate(post.date)}</time>
+            <span aria-hidden="true">·</span>
+            <span>{t('blog.readingTime', { count: post.readingTime })}</span>
+            {post.updated && (
+              <>
+                <span aria-hidden="true">·</span>
+                <span>
+                  {rich(
+                    'blog.updated',
+                    { time: (chunk) => <time dateTime={post.updated}>{chunk}</time> },
+                    { date: formatDate(post.updated) }
+                  )}
+                </span>
+              </>
+            )}
+          </div>
+          <ul className={styles.tags} aria-label={t('blog.tags')}>
+            {post.tags.map((tag) => (
+              <li key={tag}>
+                <Link href={localizePath(`/blog/tags/${tag}/`)} className={styles.tag}>
+                  #{tag}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </header>
+
+        <div className={styles.layout}>
+          {/* Table of Contents */}
+          {post.headings.length > 0 && (
+            <nav className={styles.toc} aria-labelledby="toc-heading">
+              <h2 id="toc-heading" className={styles.tocTitle}>
+                {t('blog.onThisPage')}
+              </h2>
+              <ol className={styles.tocList} lang={CONTENT_LOCALE}>
+                {post.headings.map((heading) => (
+                  <li
+                    key={heading.id}
+                    className={heading.depth === 3 ? styles.tocNested : undefined}
+                  >
+                    <a href={`#${heading.id}`} className={styles.tocLink}>
+                      {heading.text}
+                    </a>
+                  </li>
+                ))}
+              </ol>
+            </nav>
+          )}
+
+          {/* Compiled MDX */}
+          <div className={styles.prose} lang={CONTENT_LOCALE}>
+            {children}
+          </div>
+        </div>
+      </div>
+    </article>
+  );
+};
+
+export default BlogPost;
@@ -0,0 +1,161 @@
+'use client';
+
+/**
+ * Certifications Component
+ *
+ * Professional certifications from content/certifications.json featuring:
+ * - Badge, issuer, credential ID and issue/expiry dates
+ * - Link to the issuer's credential verification page
+ * - Active and expired certifications grouped separately
+ * - "Renews soon" state inside the renewal window
+ *
+ * Features:
+ * - Reveal-on-scroll animations (shared <Reveal> observer)
+ * - Staggered card animations
+ * - Status computed against `asOf` (build date) so server and client agree
+ *
+ * Accessibility:
+ * - Each group is a labelled list
+ * - Status is conveyed in text, not colour alone
+ * - Verification links state which credential they verify
+ */
+
+import React from 'react';
+import Image from 'next/image';
+import styles from './Certifications.module.css';
+import { Reveal } from './Reveal';
+import { useI18n } from '@/hooks/useI18n';
+import { certifications, type Certification } from '@/lib/content';
+import {
+  getCertificationStatus,
+  getDaysUntilExpiry,
+  groupCertifications,
+} from '@/lib/certifications';
+import { withBasePath } from '@/lib/site';
+
+interface CertificationsProps {
+  /** Date (`YYYY-MM-DD`) that expiry is measured against */
+  asOf: string;
+}
+
+export const Certifications: React.FC<CertificationsProps> = ({ asOf }) => {
+  const { t, formatDate } = useI18n();
+  const { current, expired } = groupCertifications(certifications, asOf);
+
+  if (certifications.length === 0) {
+    return null;
+  }
+
+  const renderCard = (cert: Certification) => {
+    const status = getCertificationStatus(cert, asOf);
+    const days = getDaysUntilExpiry(cert, asOf);
+
+    return (
+      <Reveal as="li" key={cert.id} className={`${styles.card} ${styles[status]}`}>
+        <Image
+          src={withBasePath(cert.badge)}
+          alt=""
+          width={72}
+          height={72}
+          className={styles.badge}
+        />
+
+        <div className={styles.details}>
+          <h4 className={styles.name}>{cert.name}</h4>
+          <p className={styles.issuer}>{cert.issuer}</p>
+
+          <dl className={styles.meta}>
+            <div>
+              <dt>{t('certifications.issued')}</dt>
+              <dd>
+                <time dateTime={cert.issued}>{formatDate(cert.issued)}</time>
+              </dd>
+            </div>
+            <div>
+              <dt>
+                {status === 'expired' ? t('certifications.expired') : t('certifications.expires')}
+              </dt>
+              <dd>
+                {cert.expires ? (
+                  <time dateTime={cert.expires}>{formatDate(cert.expires)}</time>
+                ) : (
+                  t('certifications.noExpiry')
+                )}
+              </dd>
+            </div>
+            <div>
+              <dt>{t('certifications.credentialId')}</dt>
+              <dd className={styles.credentialId}>{cert.credentialId}</dd>
+            </div>
+          </dl>
+
+          <div className={styles.footer}>
+            {status === 'expiring' && (
+              <span className={styles.statusBadge}>
+                {t('certifications.renewsSoon', { count: days ?? 0 })}
+              </span>
+            )}
+            {status === 'expired' && (
+              <span className={styles.statusBadge}>{t('certifications.expired')}</span>
+            )}
+            <a
+              href={cert.verifyUrl}
+              className={styles.verifyLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label={t('certifications.verifyLabel', { name: cert.name })}
+            >
+              {t('certifications.verify')} <span aria-hidden="true">↗</span>
+            </a>
+          </div>
+        </div>
+      </Reveal>
+    );
+  };
+
+  return (
+    <section
+      id="certifications"
+      className={styles.certifications}
+      aria-labelledby="certifications-heading"
+    >
+      <div className={styles.container}>
+        {/* Section Header */}
+        <header className={styles.header}>
+          <Reveal as="h2" id="certifications-heading" className={styles.title}>
+            {t('certifications.title')}
+          </Reveal>
+          <Reveal as="p" className={styles.subtitle}>
+            {t('certifications.subtitle')}
+          </Reveal>
+        </header>
+
+        {/* Active */}
+        {current.length > 0 && (
+          <div className={styles.group}>
+            <h3 id="certifications-active" className={styles.groupTitle}>
+              {t('certifications.active')}
+            </h3>
+            <ul className={styles.grid} aria-labelledby="certifications-active">
+              {current.map(renderCard)}
+            </ul>
+          </div>
+        )}
+
+        {/* Expired */}
+        {expired.length > 0 && (
+          <div className={styles.group}>
+            <h3 id="certifications-expired" className={styles.groupTitle}>
+              {t('certifications.expired')}
+            </h3>
+            <ul className={styles.grid} aria-labelledby="certifications-expired">
+              {expired.map(renderCard)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default Certifications;
@@ -0,0 +1,496 @@
+'use client';
+
+/**
+ * CommandPalette Component
+ *
+ * Keyboard-driven launcher, opened with Ctrl+K (⌘+K on Apple devices):
+ * - Sections from the main navigation, every project and quick actions
+ *   (copy email, toggle theme, open GitHub, download the CV)
+ * - Fuzzy search with matched characters highlighted (lib/commandPalette)
+ * - Recently run commands first, remembered in localStorage
+ * - `?` anywhere outside a text field lists every keyboard shortcut
+ *
+ * Mounted once by app/[locale]/layout.tsx; renders nothing until opened.
+ *
+ * Accessibility:
+ * - Modal dialogs with focus trapped inside and restored on close (useFocusTrap)
+ * - ARIA 1.2 combobox: the input keeps focus and points at the highlighted
+ *   option with aria-activedescendant; options are grouped in a listbox
+ * - Result counts and "Email copied" are announced through live regions
+ */
+
+import React, { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { useRouter, usePathname } from 'next/navigation';
+import styles from './CommandPalette.module.css';
+import { useFocusTrap } from '@/hooks/useFocusTrap';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  KEYBINDINGS,
+  addRecentCommand,
+  fuzzyMatch,
+  getRecentCommands,
+  isApplePlatform,
+  isPaletteShortcut,
+  isTypingTarget,
+} from '@/lib/commandPalette';
+import { navItems, projects, socialLinks } from '@/lib/content';
+import { splitLocalePath } from '@/lib/i18n';
+import { getSectionId, scrollToSection } from '@/lib/navigation';
+import { siteConfig, withBasePath } from '@/lib/site';
+
+type Mode = 'closed' | 'palette' | 'shortcuts';
+
+type CommandGroup = 'sections' | 'projects' | 'actions';
+
+interface Command {
+  id: string;
+  group: CommandGroup;
+  label: string;
+  /** Extra text shown on the right, e.g. a project's category */
+  hint?: string;
+  /** Also matched by search, never shown */
+  keywords: string[];
+  icon: string;
+  run: () => void;
+}
+
+interface Option {
+  command: Command;
+  /** Matched positions in the label */
+  indices: number[];
+}
+
+interface Section {
+  key: CommandGroup | 'recent' | 'results';
+  options: Option[];
+}
+
+const GROUP_ORDER: CommandGroup[] = ['sections', 'projects', 'actions'];
+
+// How long the copy confirmation stays on screen
+const STATUS_TIMEOUT_MS = 3000;
+
+/**
+ * Label with its matched characters wrapped in <mark>
+ */
+function highlight(label: string, indices: number[]): React.ReactNode {
+  if (indices.length === 0) return label;
+
+  const matched = new Set(indices);
+  const parts: React.ReactNode[] = [];
+  let start = 0;
+  for (let index = 0; index <= label.length; index++) {
+    const isBoundary = index === label.length || matched.has(index) !== matched.has(start);
+    if (!isBoundary) continue;
+
+    const text = label.slice(start, index);
+    parts.push(matched.has(start) ? <mark key={start}>{text}</mark> : text);
+    start = index;
+  }
+  return parts;
+}
+
+export const CommandPalette: React.FC = () => {
+  const { t, localizePath } = useI18n();
+  const { theme, setPreference } = useTheme();
+  const router = useRouter();
+  const isHome = splitLocalePath(usePathname()).path === '/';
+
+  const [mode, setMode] = useState<Mode>('closed');
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [recent, setRecent] = useState<string[]>([]);
+  const [status, setStatus] = useState('');
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const paletteRef = useFocusTrap<HTMLDivElement>(mode === 'palette');
+  const shortcutsRef = useFocusTrap<HTMLDivElement>(mode === 'shortcuts');
+  const idPrefix = useId();
+  const listId = `${idPrefix}-list`;
+  const optionId = (index: number) => `${idPrefix}-option-${index}`;
+
+  const openPalette = useCallback(() => {
+    setQuery('');
+    setActiveIndex(0);
+    setRecent(getRecentCommands());
+    setMode('palette');
+  }, []);
+
+  const close = useCallback(() => setMode('closed'), []);
+
+  /**
+   * Ctrl/⌘+K toggles the palette; `?` opens the shortcuts overlay
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isPaletteShortcut(event)) {
+        event.preventDefault();
+        if (mode === 'palette') close();
+        else openPalette();
+        return;
+      }
+
+      if (event.key === '?' && !event.ctrlKey && !event.metaKey && !event.altKey && !isTypingTarget(event.target)) {
+        event.preventDefault();
+        setMode((current) => (current === 'shortcuts' ? 'closed' : 'shortcuts'));
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mode, close, openPalette]);
+
+  // Clear the copy confirmation after a while
+  useEffect(() => {
+    if (!status) return;
+    const timer = setTimeout(() => setStatus(''), STATUS_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const commands = useMemo<Command[]>(() => {
+    const navigate = (href: string) => {
+      // Sections on this page scroll in place; everything else navigates
+      const sectionId = getSectionId(href);
+      if (isHome && sectionId && scrollToSection(sectionId)) return;
+      router.push(localizePath(href));
+    };
+
+    const github = socialLinks.find((link) => link.icon === 'github');
+
+    const sections: Command[] = navItems.map((item) => ({
+      id: `section:${item.href}`,
+      group: 'sections',
+      label: t('commandPalette.goTo', { section: t(`nav.${item.label}`) }),
+      keywords: [item.href],
+      icon: getSectionId(item.href) ? '#' : '→',
+      run: () => navigate(item.href),
+    }));
+
+    const projectCommands: Command[] = projects.map((project) => ({
+      id: `project:${project.slug}`,
+      group: 'projects',
+      label: project.title,
+      hint: project.category,
+      keywords: [project.category, ...project.technologies],
+      icon: project.icon,
+      run: () => router.push(localizePath(`/projects/${project.slug}/`)),
+    }));
+
+    const actions: Command[] = [
+      {
+        id: 'action:copy-email',
+        group: 'actions',
+        label: t('commandPalette.copyEmail'),
+        hint: siteConfig.author.email,
+        keywords: [siteConfig.author.email],
+        icon: '✉️',
+        run: () => {
+          // Only available in secure contexts (HTTPS or localhost)
+          if (!navigator.clipboard) {
+            setStatus(t('commandPalette.copyFailed'));
+            return;
+          }
+          navigator.clipboard
+            .writeText(siteConfig.author.email)
+            .then(() => setStatus(t('commandPalette.emailCopied')))
+            .catch(() => setStatus(t('commandPalette.copyFailed')));
+        },
+      },
+      {
+        id: 'action:toggle-theme',
+        group: 'actions',
+        label: t('commandPalette.toggleTheme'),
+        hint: theme === 'dark' ? t('theme.light') : t('theme.dark'),
+        keywords: ['dark', 'light'],
+        icon: theme === 'dark' ? '☀️' : '🌙',
+        run: () => setPreference(theme === 'dark' ? 'light' : 'dark'),
+      },
+      ...(github
+        ? [
+            {
+              id: 'action:open-github',
+              group: 'actions' as const,
+              label: t('commandPalette.openGitHub'),
+              keywords: [github.href],
+              icon: '↗',
+              run: () => {
+                window.open(github.href, '_blank', 'noopener,noreferrer');
+              },
+            },
+          ]
+        : []),
+      {
+        id: 'action:download-cv',
+        group: 'actions',
+        label: t('commandPalette.downloadCv'),
+        hint: 'PDF',
+        keywords: ['resume', 'résumé', t('nav.resume')],
+        icon: '📄',
+        run: () => {
+          const link = document.createElement('a');
+          link.href = withBasePath('/resume.pdf');
+          link.download = '';
+          link.click();
+        },
+      },
+      {
+        id: 'action:shortcuts',
+        group: 'actions',
+        label: t('commandPalette.showShortcuts'),
+        hint: '?',
+        keywords: ['keys', 'help'],
+        icon: '⌨️',
+        run: () => setMode('shortcuts'),
+      },
+    ];
+
+    return [...sections, ...projectCommands, ...actions];
+  }, [t, localizePath, router, isHome, theme, setPreference]);
+
+  /**
+   * Recent commands and every group when the query is empty, otherwise
+   * one list of matches, best first
+   */
+  const sections = useMemo<Section[]>(() => {
+    if (!query.trim()) {
+      const recentOptions = recent
+        .map((id) => commands.find((command) => command.id === id))
+        .filter((command): command is Command => command !== undefined)
+        .map((command) => ({ command, indices: [] }));
+
+      return [
+        { key: 'recent' as const, options: recentOptions },
+        ...GROUP_ORDER.map((group) => ({
+          key: group,
+          options: commands
+            .filter((command) => command.group === group && !recent.includes(command.id))
+            .map((command) => ({ command, indices: [] })),
+        })),
+      ].filter((section) => section.options.length > 0);
+    }
+
+    const matches = commands.flatMap((command) => {
+      const label = fuzzyMatch(query, command.label);
+      const keyword = Math.max(
+        -Infinity,
+        ...command.keywords.map((text) => fuzzyMatch(query, text)?.score ?? -Infinity)
+      );
+      // Keyword matches rank just below label matches
+      const score = Math.max(label?.score ?? -Infinity, keyword - 2);
+      return score === -Infinity ? [] : [{ command, indices: label?.indices ?? [], score }];
+    });
+    matches.sort((a, b) => b.score - a.score);
+
+    return matches.length > 0
+      ? [{ key: 'results', options: matches.map(({ command, indices }) => ({ command, indices })) }]
+      : [];
+  }, [query, recent, commands]);
+
+  const options = useMemo(() => sections.flatMap((section) => section.options), [sections]);
+  const activeOption = options[activeIndex];
+
+  // Keep the highlighted option in view
+  useEffect(() => {
+    if (mode !== 'palette') return;
+    listRef.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [mode, activeIndex, sections]);
+
+  const runCommand = (command: Command) => {
+    setRecent(addRecentCommand(command.id));
+    // Close first, so focus is back on the page before navigating
+    setMode('closed');
+    command.run();
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (options.length > 0) setActiveIndex((activeIndex + 1) % options.length);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (options.length > 0) setActiveIndex((activeIndex - 1 + options.length) % options.length);
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (activeOption) runCommand(activeOption.command);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        // First Escape clears the search, the next one closes
+        if (query) {
+          setQuery('');
+          setActiveIndex(0);
+        } else {
+          close();
+        }
+        break;
+    }
+  };
+
+  // Escape closes a dialog, unless the search field has already used it
+  const handleDialogKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape' && !event.defaultPrevented) {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  // Close when the backdrop itself (not the dialog) is clicked
+  const handleBackdropMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (event.target === event.currentTarget) close();
+  };
+
+  const modLabel = mode === 'shortcuts' && isApplePlatform() ? '⌘' : 'Ctrl';
+  let optionIndex = 0;
+
+  return (
+    <>
+      {/* Copy confirmation, announced and shown briefly */}
+      <div className={`${styles.toast} ${status ? styles.toastVisible : ''}`} role="status" aria-live="polite">
+        {status}
+      </div>
+
+      {mode === 'palette' && (
+        <div className={styles.backdrop} onMouseDown={handleBackdropMouseDown}>
+          <div
+            ref={paletteRef}
+            className={styles.dialog}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby={`${idPrefix}-title`}
+            onKeyDown={handleDialogKeyDown}
+          >
+            <h2 id={`${idPrefix}-title`} className="visually-hidden">
+              {t('commandPalette.title')}
+            </h2>
+
+            <div className={styles.search}>
+              <svg className={styles.searchIcon} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                <circle cx="11" cy="11" r="7" />
+                <line x1="21" y1="21" x2="16.65" y2="16.65" />
+              </svg>
+              <input
+                type="text"
+                className={styles.input}
+                role="combobox"
+                aria-label={t('commandPalette.inputLabel')}
+                aria-expanded={options.length > 0}
+                aria-controls={listId}
+                aria-autocomplete="list"
+                aria-activedescendant={activeOption ? optionId(activeIndex) : undefined}
+                placeholder={t('commandPalette.placeholder')}
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setActiveIndex(0);
+                }}
+                onKeyDown={handleInputKeyDown}
+                autoComplete="off"
+                autoCorrect="off"
+                spellCheck={false}
+                data-autofocus
+              />
+            </div>
+
+            <div
+              ref={listRef}
+              id={listId}
+              className={styles.list}
+              role="listbox"
+              aria-label={t('commandPalette.title')}
+            >
+              {sections.map((section) => (
+                <div key={section.key} role="group" aria-labelledby={`${idPrefix}-${section.key}`}>
+                  <div id={`${idPrefix}-${section.key}`} className={styles.groupLabel} role="presentation">
+                    {t(`commandPalette.groups.${section.key}`)}
+                  </div>
+                  {section.options.map(({ command, indices }) => {
+                    const index = optionIndex++;
+                    return (
+                      <div
+                        key={command.id}
+                        id={optionId(index)}
+                        className={styles.option}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        onMouseMove={() => {
+                          if (index !== activeIndex) setActiveIndex(index);
+                        }}
+                        onClick={() => runCommand(command)}
+                      >
+                        <span className={styles.optionIcon} aria-hidden="true">
+                          {command.icon}
+                        </span>
+                        <span className={styles.optionLabel}>{highlight(command.label, indices)}</span>
+                        {command.hint && <span className={styles.optionHint}>{command.hint}</span>}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+
+            {options.length === 0 && (
+              <p className={styles.empty}>{t('commandPalette.empty', { query })}</p>
+            )}
+
+            <p className="visually-hidden" role="status" aria-live="polite">
+              {query ? t('commandPalette.results', { count: options.length }) : ''}
+            </p>
+
+            <div className={styles.footer}>
+              <span aria-hidden="true">{t('commandPalette.hint')}</span>
+              <button type="button" className={styles.footerButton} onClick={() => setMode('shortcuts')}>
+                {t('commandPalette.showShortcuts')} <kbd className={styles.kbd}>?</kbd>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {mode === 'shortcuts' && (
+        <div className={styles.backdrop} onMouseDown={handleBackdropMouseDown}>
+          <div
+            ref={shortcutsRef}
+            className={`${styles.dialog} ${styles.shortcuts}`}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby={`${idPrefix}-shortcuts-title`}
+            onKeyDown={handleDialogKeyDown}
+          >
+            <div className={styles.shortcutsHeader}>
+              <h2 id={`${idPrefix}-shortcuts-title`} className={styles.shortcutsTitle}>
+                {t('commandPalette.shortcutsTitle')}
+              </h2>
+              <button type="button" className={styles.closeButton} onClick={close} aria-label={t('commandPalette.close')} data-autofocus>
+                <span aria-hidden="true">×</span>
+              </button>
+            </div>
+
+            <dl className={styles.keybindings}>
+              {KEYBINDINGS.map((binding) => (
+                <div key={binding.description} className={styles.keybinding}>
+                  <dt className={styles.keys}>
+                    {binding.keys.map((key) => (
+                      <kbd key={key} className={styles.kbd}>
+                        {key === 'Mod' ? modLabel : key}
+                      </kbd>
+                    ))}
+                  </dt>
+                  <dd className={styles.keyDescription}>{t(binding.description)}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CommandPalette;
@@ -9,7 +9,14 @@
  * - Form validation with real-time feedback
  * - Accessible form structure with ARIA labels
  * - Animated form elements on scroll
- * - Success/error state management
+ * - Delivery through the configured transport (see src/lib/contact),
+ *   with timeouts, retry with backoff and an offline outbox
+ * - Spam protection without a CAPTCHA: honeypot field, minimum
+ *   time-to-submit and a hashcash proof-of-work stamp minted in a
+ *   Web Worker (checked again by the receiving side, see verify.ts)
+ * - Optional OpenPGP encryption of the message to the key published at
+ *   /pgp.asc; the ciphertext can be sent or copied into an email
+ * - Specific success/error messages per outcome
  * - Contact information display
  * 
  * Form Fields:
@@ -23,13 +30,48 @@
  * - Focus management on errors
  * - ARIA live regions for form feedback
  * 
- * Note: Since this is for GitHub Pages (static hosting),
- * form submission uses Formspree or similar service.
- * Update the form action URL for production use.
+ * Note: Since this is for GitHub Pages (static hosting), messages go to
+ * a third-party form endpoint set with NEXT_PUBLIC_CONTACT_ENDPOINT.
+ * Without one the form falls back to opening the visitor's mail client.
  */
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import styles from './Contact.module.css';
+import { Reveal } from './Reveal';
+import { useI18n } from '@/hooks/useI18n';
+import {
+  buildMailtoUrl,
+  ContactDeliveryError,
+  describeDeliveryError,
+  encryptMessage,
+  flushOutbox,
+  getContactTransport,
+  queueMessage,
+  sendWithRetry,
+  solveProofOfWork,
+  type ContactSubmission,
+  type RetryOptions,
+} from '@/lib/contact';
+import type { PgpKey } from '@/lib/content';
+import type { MessageKey } from '@/lib/i18n';
+import { siteConfig, withBasePath } from '@/lib/site';
+
+const transport = getContactTransport();
+const retryOptions: RetryOptions = siteConfig.contact.retry;
+const { minFillMs, powBits } = siteConfig.contact.spam;
+const { email, phone } = siteConfig.author;
+
+const MIN_NAME_LENGTH = 2;
+const MIN_MESSAGE_LENGTH = 10;
+
+/**
+ * Mints a fresh proof-of-work stamp; the mailto transport has no
+ * receiving side to check one
+ */
+async function withFreshStamp(submission: ContactSubmission): Promise<ContactSubmission> {
+  if (transport.name === 'mailto') return submission;
+  return { ...submission, stamp: await solveProofOfWork(submission, powBits) };
+}
 
 // Form field types
 interface FormData {
@@ -45,11 +87,31 @@ interface FormErrors {
 }
 
 // Form status types
-type FormStatus = 'idle' | 'submitting' | 'success' | 'error';
+// handed-off: passed to the mail client; queued: saved in the offline outbox
+// copied: encrypted message copied to the clipboard
+type FormStatus =
+  | 'idle'
+  | 'submitting'
+  | 'success'
+  | 'handed-off'
+  | 'queued'
+  | 'copied'
+  | 'error';
+
+const STATUS_MESSAGES: Partial<Record<FormStatus, MessageKey>> = {
+  success: 'contact.status.success',
+  'handed-off': 'contact.status.handedOff',
+  queued: 'contact.status.queued',
+  copied: 'contact.status.copied',
+};
+
+interface ContactProps {
+  /** Public key for "Encrypt this message"; the option is hidden without one */
+  pgpKey?: PgpKey | null;
+}
 
-export const Contact: React.FC = () => {
-  const sectionRef = useRef<HTMLElement>(null);
-  const [isVisible, setIsVisible] = useState(false);
+export const Contact: React.FC<ContactProps> = ({ pgpKey }) => {
+  const { t, rich } = useI18n();
   
   // Form state
   const [formData, setFormData] = useState<FormData>({
@@ -61,34 +123,58 @@ export const Contact: React.FC = () => {
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [status, setStatus] = useState<FormStatus>('idle');
+  const [statusText, setStatusText] = useState('');
+  // Button text while submitting: encrypting, verifying, sending, retrying
+  const [progress, setProgress] = useState(() => t('contact.progress.sending'));
+  const [encrypt, setEncrypt] = useState(false);
+  // Honeypot: hidden from people, so anything typed here came from a bot
+  const [gotcha, setGotcha] = useState('');
+  const startedAt = useRef(0);
+  // Message that failed to send, offered as a prefilled email instead
+  const [fallbackMessage, setFallbackMessage] = useState<FormData | null>(null);
+  const statusTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
 
   /**
-   * Intersection Observer for scroll animations
+   * Start of the time-to-submit check
    */
   useEffect(() => {
-    const observer = new IntersectionObserver(
-      (entries) => {
-        entries.forEach((entry) => {
-          if (entry.isIntersecting) {
-            setIsVisible(true);
-            observer.unobserve(entry.target);
-          }
-        });
-      },
-      { threshold: 0.1 }
-    );
-
-    const section = sectionRef.current;
-    if (section) {
-      observer.observe(section);
+    startedAt.current = Date.now();
+  }, []);
+
+  /**
+   * Shows a status message; confirmations clear after 5 seconds, errors
+   * stay until the next submission
+   */
+  const showStatus = useCallback((next: FormStatus, text?: string) => {
+    const key = STATUS_MESSAGES[next];
+    clearTimeout(statusTimer.current);
+    setStatus(next);
+    setStatusText(text ?? (key ? t(key, { email }) : ''));
+    if (next !== 'error' && next !== 'submitting') {
+      statusTimer.current = setTimeout(() => setStatus('idle'), 5000);
     }
+  }, [t]);
+
+  /**
+   * Resend messages saved while offline, now and whenever the
+   * connection comes back. Stamps are re-minted since queued ones
+   * may have expired. transport and retryOptions are module constants;
+   * t and showStatus only change with the locale.
+   */
+  useEffect(() => {
+    if (!transport.queueable) return;
 
-    return () => {
-      if (section) {
-        observer.unobserve(section);
+    const flush = async () => {
+      const sent = await flushOutbox(transport, retryOptions, withFreshStamp);
+      if (sent > 0) {
+        showStatus('success', t('contact.status.flushed', { count: sent }));
       }
     };
-  }, []);
+
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, [showStatus, t]);
 
   /**
    * Email validation regex
@@ -106,20 +192,24 @@ export const Contact: React.FC = () => {
   const validateField = useCallback((name: string, value: string): string | undefined => {
     switch (name) {
       case 'name':
-        if (!value.trim()) return 'Name is required';
-        if (value.trim().length < 2) return 'Name must be at least 2 characters';
+        if (!value.trim()) return t('contact.errors.nameRequired');
+        if (value.trim().length < MIN_NAME_LENGTH) {
+          return t('contact.errors.nameShort', { min: MIN_NAME_LENGTH });
+        }
         break;
       case 'email':
-        if (!value.trim()) return 'Email is required';
-        if (!isValidEmail(value)) return 'Please enter a valid email address';
+        if (!value.trim()) return t('contact.errors.emailRequired');
+        if (!isValidEmail(value)) return t('contact.errors.emailInvalid');
         break;
       case 'message':
-        if (!value.trim()) return 'Message is required';
-        if (value.trim().length < 10) return 'Message must be at least 10 characters';
+        if (!value.trim()) return t('contact.errors.messageRequired');
+        if (value.trim().length < MIN_MESSAGE_LENGTH) {
+          return t('contact.errors.messageShort', { min: MIN_MESSAGE_LENGTH });
+        }
         break;
     }
     return undefined;
-  }, []);
+  }, [t]);
 
   /**
    * Validate all form fields
@@ -185,10 +275,8 @@ export const Contact: React.FC = () => {
 
   /**
    * Handle form submission
-   * Validates form and simulates submission
-   * 
-   * For production: Replace with actual form submission logic
-   * Options: Formspree, Netlify Forms, EmailJS, or custom backend
+   * Validates form and delivers it through the configured transport,
+   * retrying transient failures and queueing the message when offline
    */
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -205,35 +293,115 @@ export const Contact: React.FC = () => {
       return;
     }
 
-    setStatus('submitting');
-
-    try {
-      // Simulate form submission (replace with actual API call)
-      // For GitHub Pages, use Formspree or similar:
-      // await fetch('https://formspree.io/f/your-form-id', {
-      //   method: 'POST',
-      //   body: JSON.stringify(formData),
-      //   headers: { 'Content-Type': 'application/json' },
-      // });
-      
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      
-      setStatus('success');
+    const resetForm = () => {
       setFormData({ name: '', email: '', message: '' });
       setTouched({});
       setErrors({});
-      
-      // Reset status after 5 seconds
-      setTimeout(() => setStatus('idle'), 5000);
+      setGotcha('');
+    };
+
+    // Bots get the usual confirmation so they don't adapt
+    if (gotcha) {
+      showStatus('success');
+      resetForm();
+      return;
+    }
+
+    if (Date.now() - startedAt.current < minFillMs) {
+      showStatus('error', t('contact.status.tooFast'));
+      return;
+    }
+
+    showStatus('submitting');
+    setFallbackMessage(null);
+
+    let message = formData.message;
+    if (encrypt && pgpKey) {
+      setProgress(t('contact.progress.encrypting'));
+      try {
+        message = await encryptMessage(formData.message, pgpKey.armored);
+      } catch {
+        showStatus('error', t('contact.status.encryptFailed'));
+        return;
+      }
+    }
+
+    let submission: ContactSubmission;
+    try {
+      setProgress(t('contact.progress.verifying'));
+      submission = await withFreshStamp({
+        ...formData,
+        message,
+        _gotcha: gotcha,
+        startedAt: startedAt.current,
+        stamp: '',
+      });
+    } catch {
+      setFallbackMessage({ ...formData, message });
+      showStatus('error', t('contact.status.stampFailed'));
+      return;
+    }
+
+    try {
+      setProgress(t('contact.progress.sending'));
+      const outcome = await sendWithRetry(transport, submission, {
+        ...retryOptions,
+        onRetry: (next) =>
+          setProgress(
+            t('contact.progress.retrying', { attempt: next, attempts: retryOptions.attempts })
+          ),
+      });
+
+      showStatus(outcome === 'handed-off' ? 'handed-off' : 'success');
+      resetForm();
+    } catch (error) {
+      if (
+        error instanceof ContactDeliveryError &&
+        error.reason === 'offline' &&
+        transport.queueable &&
+        queueMessage(submission)
+      ) {
+        showStatus('queued');
+        resetForm();
+        return;
+      }
+
+      if (transport.name !== 'mailto') {
+        setFallbackMessage({ ...formData, message });
+      }
+      showStatus('error', describeDeliveryError(error, t));
+    }
+  };
+
+  /**
+   * Encrypts the message and copies the ciphertext, for visitors who
+   * would rather send it from their own mail client
+   */
+  const handleCopyEncrypted = async () => {
+    if (!pgpKey) return;
+
+    setTouched((prev) => ({ ...prev, message: true }));
+    const error = validateField('message', formData.message);
+    setErrors((prev) => ({ ...prev, message: error }));
+    if (error) return;
+
+    // Only available in secure contexts (HTTPS or localhost)
+    if (!navigator.clipboard) {
+      showStatus('error', t('contact.status.copyFailed'));
+      return;
+    }
+
+    try {
+      const ciphertext = await encryptMessage(formData.message, pgpKey.armored);
+      await navigator.clipboard.writeText(ciphertext);
+      showStatus('copied');
     } catch {
-      setStatus('error');
-      setTimeout(() => setStatus('idle'), 5000);
+      showStatus('error', t('contact.status.copyFailed'));
     }
   };
 
   return (
     <section
-      ref={sectionRef}
       id="contact"
       className={styles.contact}
       aria-labelledby="contact-heading"
@@ -241,53 +409,45 @@ export const Contact: React.FC = () => {
       <div className={styles.container}>
         {/* Section Header */}
         <header className={styles.header}>
-          <h2 
-            id="contact-heading" 
-            className={`${styles.title} ${isVisible ? styles.visible : ''}`}
-          >
-            Get In Touch
-          </h2>
-          <p className={`${styles.subtitle} ${isVisible ? styles.visible : ''}`}>
-            Have a security challenge or want to discuss a project? 
-            I&apos;d love to hear from you.
-          </p>
+          <Reveal as="h2" id="contact-heading" className={styles.title}>
+            {t('contact.title')}
+          </Reveal>
+          <Reveal as="p" className={styles.subtitle}>
+            {t('contact.subtitle')}
+          </Reveal>
         </header>
 
         <div className={styles.content}>
           {/* Contact Information */}
-          <div className={`${styles.info} ${isVisible ? styles.visible : ''}`}>
-            <h3 className={styles.infoTitle}>Let&apos;s Connect</h3>
-            <p className={styles.infoText}>
-              Whether you&apos;re looking for security consultation, interested in 
-              collaboration, or just want to chat about DevSecOps best practices, 
-              feel free to reach out.
-            </p>
+          <Reveal className={styles.info}>
+            <h3 className={styles.infoTitle}>{t('contact.infoTitle')}</h3>
+            <p className={styles.infoText}>{t('contact.infoText')}</p>
 
             {/* Contact Methods */}
-            <ul className={styles.contactMethods} aria-label="Contact methods">
+            <ul className={styles.contactMethods} aria-label={t('contact.methods')}>
               <li className={styles.contactMethod}>
                 <span className={styles.methodIcon} aria-hidden="true">📧</span>
                 <div>
-                  <span className={styles.methodLabel}>Email</span>
+                  <span className={styles.methodLabel}>{t('contact.email')}</span>
                   <a 
-                    href="mailto:maajagat@gmail.com" 
+                    href={`mailto:${email}`} 
                     className={styles.methodValue}
-                    aria-label="Send email to maajagat@gmail.com"
+                    aria-label={t('contact.emailLabel', { email })}
                   >
-                    maajagat@gmail.com
+                    {email}
                   </a>
                 </div>
               </li>
               <li className={styles.contactMethod}>
                 <span className={styles.methodIcon} aria-hidden="true">📱</span>
                 <div>
-                  <span className={styles.methodLabel}>Phone</span>
+                  <span className={styles.methodLabel}>{t('contact.phone')}</span>
                   <a 
-                    href="tel:+919910045106" 
+                    href={`tel:${phone.replace(/\s+/g, '')}`} 
                     className={styles.methodValue}
-                    aria-label="Call +91 9910045106"
+                    aria-label={t('contact.phoneLabel', { phone })}
                   >
-                    +91 9910045106
+                    {phone}
                   </a>
                 </div>
               </li>
@@ -300,7 +460,7 @@ export const Contact: React.FC = () => {
                     className={styles.methodValue}
                     target="_blank"
                     rel="noopener noreferrer"
-                    aria-label="View LinkedIn profile"
+                    aria-label={t('contact.linkedinLabel')}
                   >
                     /in/devsecops-pro
                   </a>
@@ -315,31 +475,53 @@ export const Contact: React.FC = () => {
                     className={styles.methodValue}
                     target="_blank"
                     rel="noopener noreferrer"
-                    aria-label="View GitHub profile"
+                    aria-label={t('contact.githubLabel')}
                   >
                     @devsecops-pro
                   </a>
                 </div>
               </li>
+              {pgpKey && (
+                <li className={styles.contactMethod}>
+                  <span className={styles.methodIcon} aria-hidden="true">🔑</span>
+                  <div>
+                    <span className={styles.methodLabel}>{t('contact.pgpKey')}</span>
+                    <a
+                      href={withBasePath('/pgp.asc')}
+                      className={`${styles.methodValue} ${styles.fingerprint}`}
+                      aria-label={t('contact.pgpKeyLabel', { fingerprint: pgpKey.fingerprint })}
+                      download
+                    >
+                      {pgpKey.fingerprint}
+                    </a>
+                  </div>
+                </li>
+              )}
             </ul>
-          </div>
+          </Reveal>
 
           {/* Contact Form */}
-          <form
-            className={`${styles.form} ${isVisible ? styles.visible : ''}`}
+          <Reveal
+            as="form"
+            className={styles.form}
             onSubmit={handleSubmit}
             noValidate
-            aria-label="Contact form"
+            aria-label={t('contact.form')}
           >
             {/* Status Messages */}
-            {status === 'success' && (
+            {(status === 'success' ||
+              status === 'handed-off' ||
+              status === 'queued' ||
+              status === 'copied') && (
               <div 
                 className={styles.successMessage}
                 role="alert"
                 aria-live="polite"
               >
-                <span className={styles.statusIcon}>✅</span>
-                Thank you! Your message has been sent successfully.
+                <span className={styles.statusIcon}>
+                  {status === 'queued' ? '📥' : status === 'copied' ? '🔐' : '✅'}
+                </span>
+                {statusText}
               </div>
             )}
             
@@ -350,14 +532,26 @@ export const Contact: React.FC = () => {
                 aria-live="polite"
               >
                 <span className={styles.statusIcon}>❌</span>
-                Something went wrong. Please try again later.
+                <span>
+                  {statusText}
+                  {fallbackMessage && (
+                    <>
+                      {' '}
+                      {rich('contact.fallback', {
+                        link: (chunk) => (
+                          <a href={buildMailtoUrl(email, fallbackMessage)}>{chunk}</a>
+                        ),
+                      })}
+                    </>
+                  )}
+                </span>
               </div>
             )}
 
             {/* Name Field */}
             <div className={styles.formGroup}>
               <label htmlFor="name" className={styles.label}>
-                Name
+                {t('contact.name')}
                 <span className={styles.required} aria-hidden="true">*</span>
               </label>
               <input
@@ -368,7 +562,7 @@ export const Contact: React.FC = () => {
                 onChange={handleChange}
                 onBlur={handleBlur}
                 className={`${styles.input} ${errors.name && touched.name ? styles.inputError : ''}`}
-                placeholder="Your name"
+                placeholder={t('contact.namePlaceholder')}
                 required
                 aria-required="true"
                 aria-invalid={errors.name && touched.name ? 'true' : 'false'}
@@ -385,7 +579,7 @@ export const Contact: React.FC = () => {
             {/* Email Field */}
             <div className={styles.formGroup}>
               <label htmlFor="email" className={styles.label}>
-                Email
+                {t('contact.email')}
                 <span className={styles.required} aria-hidden="true">*</span>
               </label>
               <input
@@ -396,7 +590,7 @@ export const Contact: React.FC = () => {
                 onChange={handleChange}
                 onBlur={handleBlur}
                 className={`${styles.input} ${errors.email && touched.email ? styles.inputError : ''}`}
-                placeholder="your.email@example.com"
+                placeholder={t('contact.emailPlaceholder')}
                 required
                 aria-required="true"
                 aria-invalid={errors.email && touched.email ? 'true' : 'false'}
@@ -413,7 +607,7 @@ export const Contact: React.FC = () => {
             {/* Message Field */}
             <div className={styles.formGroup}>
               <label htmlFor="message" className={styles.label}>
-                Message
+                {t('contact.message')}
                 <span className={styles.required} aria-hidden="true">*</span>
               </label>
               <textarea
@@ -423,7 +617,7 @@ export const Contact: React.FC = () => {
                 onChange={handleChange}
                 onBlur={handleBlur}
                 className={`${styles.textarea} ${errors.message && touched.message ? styles.inputError : ''}`}
-                placeholder="Tell me about your project or question..."
+                placeholder={t('contact.messagePlaceholder')}
                 rows={5}
                 required
                 aria-required="true"
@@ -438,6 +632,51 @@ export const Contact: React.FC = () => {
               )}
             </div>
 
+            {/* Encryption Option */}
+            {pgpKey && (
+              <div className={styles.encryptOption}>
+                <label className={styles.checkboxLabel}>
+                  <input
+                    type="checkbox"
+                    checked={encrypt}
+                    onChange={(e) => setEncrypt(e.target.checked)}
+                    aria-describedby="encrypt-hint"
+                    disabled={status === 'submitting'}
+                  />
+                  {t('contact.encrypt')}
+                </label>
+                <p id="encrypt-hint" className={styles.hint}>
+                  {rich('contact.encryptHint', {
+                    link: (chunk) => <a href={withBasePath('/pgp.asc')}>{chunk}</a>,
+                  })}
+                </p>
+                {encrypt && (
+                  <button
+                    type="button"
+                    className={styles.copyButton}
+                    onClick={handleCopyEncrypted}
+                    disabled={status === 'submitting'}
+                  >
+                    {t('contact.copyEncrypted')}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Honeypot - hidden from people and assistive technology */}
+            <div className={styles.honeypot} aria-hidden="true">
+              <label htmlFor="contact-website">{t('contact.honeypot')}</label>
+              <input
+                type="text"
+                id="contact-website"
+                name="_gotcha"
+                value={gotcha}
+                onChange={(e) => setGotcha(e.target.value)}
+                tabIndex={-1}
+                autoComplete="off"
+              />
+            </div>
+
             {/* Submit Button */}
             <button
               type="submit"
@@ -448,16 +687,18 @@ export const Contact: React.FC = () => {
               {status === 'submitting' ? (
                 <>
                   <span className={styles.spinner} aria-hidden="true" />
-                  Sending...
+                  {progress}
                 </>
               ) : (
                 <>
-                  <span className={styles.buttonIcon} aria-hidden="true">📤</span>
-                  Send Message
+                  <span className={styles.buttonIcon} aria-hidden="true">
+                    {encrypt && pgpKey ? '🔐' : '📤'}
+                  </span>
+                  {encrypt && pgpKey ? t('contact.sendEncrypted') : t('contact.send')}
                 </>
               )}
             </button>
-          </form>
+          </Reveal>
         </div>
       </div>
     </section>
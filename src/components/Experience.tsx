@@ -0,0 +1,161 @@
+'use client';
+
+/**
+ * Experience Component
+ *
+ * Vertical timeline of roles from content/experience.json featuring:
+ * - Role, company, location and date range with computed duration
+ * - Key highlights and the technologies used in each role
+ * - Long entries collapsed behind a "Show more" toggle
+ *
+ * Features:
+ * - Reveal-on-scroll animations (shared <Reveal> observer)
+ * - Staggered entry animations along the timeline
+ * - Durations measured up to `asOf` (build month) so server and client agree
+ *
+ * Accessibility:
+ * - Ordered list, most recent role first
+ * - Machine-readable <time> elements for start and end months
+ * - Toggle buttons expose aria-expanded / aria-controls
+ */
+
+import React, { useState } from 'react';
+import styles from './Experience.module.css';
+import { Reveal } from './Reveal';
+import { useI18n } from '@/hooks/useI18n';
+import { experience } from '@/lib/content';
+import { formatDuration, getRoleMonths } from '@/lib/experience';
+
+// Highlights shown before an entry is collapsed
+const COLLAPSED_HIGHLIGHTS = 2;
+
+interface ExperienceProps {
+  /** Month (`YYYY-MM`) that the current role's duration is measured to */
+  asOf: string;
+}
+
+export const Experience: React.FC<ExperienceProps> = ({ asOf }) => {
+  const { t, formatMonth } = useI18n();
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  const toggleExpanded = (id: string) => {
+    setExpanded((current) =>
+      current.includes(id) ? current.filter((entry) => entry !== id) : [...current, id]
+    );
+  };
+
+  if (experience.length === 0) {
+    return null;
+  }
+
+  return (
+    <section
+      id="experience"
+      className={styles.experience}
+      aria-labelledby="experience-heading"
+    >
+      <div className={styles.container}>
+        {/* Section Header */}
+        <header className={styles.header}>
+          <Reveal as="h2" id="experience-heading" className={styles.title}>
+            {t('experience.title')}
+          </Reveal>
+          <Reveal as="p" className={styles.subtitle}>
+            {t('experience.subtitle')}
+          </Reveal>
+        </header>
+
+        {/* Timeline */}
+        <ol className={styles.timeline}>
+          {experience.map((role) => {
+            const isExpanded = expanded.includes(role.id);
+            const isCollapsible = role.highlights.length > COLLAPSED_HIGHLIGHTS;
+            const highlights =
+              isCollapsible && !isExpanded
+                ? role.highlights.slice(0, COLLAPSED_HIGHLIGHTS)
+                : role.highlights;
+            const highlightsId = `experience-${role.id}-highlights`;
+
+            return (
+              <Reveal
+                as="li"
+                key={role.id}
+                className={styles.entry}
+                stagger={0.15}
+              >
+                {/* Timeline marker */}
+                <span
+                  className={`${styles.marker} ${role.end ? '' : styles.current}`}
+                  aria-hidden="true"
+                />
+
+                <article className={styles.card} aria-labelledby={`experience-${role.id}`}>
+                  <header className={styles.cardHeader}>
+                    <div>
+                      <h3 id={`experience-${role.id}`} className={styles.role}>
+                        {role.role}
+                      </h3>
+                      <p className={styles.company}>
+                        {role.company}
+                        <span aria-hidden="true"> · </span>
+                        <span className={styles.location}>{role.location}</span>
+                      </p>
+                    </div>
+                    <p className={styles.period}>
+                      <time dateTime={role.start}>{formatMonth(role.start)}</time>
+                      {' – '}
+                      {role.end ? (
+                        <time dateTime={role.end}>{formatMonth(role.end)}</time>
+                      ) : (
+                        t('experience.present')
+                      )}
+                      <span className={styles.duration}>
+                        {formatDuration(getRoleMonths(role, asOf), t)}
+                      </span>
+                    </p>
+                  </header>
+
+                  <p className={styles.summary}>{role.summary}</p>
+
+                  <ul id={highlightsId} className={styles.highlights}>
+                    {highlights.map((highlight) => (
+                      <li key={highlight}>{highlight}</li>
+                    ))}
+                  </ul>
+
+                  {isCollapsible && (
+                    <button
+                      type="button"
+                      className={styles.toggle}
+                      onClick={() => toggleExpanded(role.id)}
+                      aria-expanded={isExpanded}
+                      aria-controls={highlightsId}
+                    >
+                      {isExpanded
+                        ? t('experience.showLess')
+                        : t('experience.showMore', {
+                            count: role.highlights.length - COLLAPSED_HIGHLIGHTS,
+                          })}
+                    </button>
+                  )}
+
+                  {role.technologies.length > 0 && (
+                    <ul className={styles.techList} aria-label={t('experience.technologies', { company: role.company })}>
+                      {role.technologies.map((tech) => (
+                        <li key={tech} className={styles.techTag}>
+                          {tech}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </article>
+              </Reveal>
+            );
+          })}
+        </ol>
+      </div>
+    </section>
+  );
+};
+
+export default Experience;
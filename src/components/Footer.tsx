@@ -8,6 +8,7 @@
  * - Social media links
  * - Copyright notice
  * - Decorative tri-colour accent
+ * - Copy and links in the page's locale
  * 
  * Accessibility:
  * - Proper semantic structure (footer, nav)
@@ -22,49 +23,37 @@
  */
 
 import React from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
 import styles from './Footer.module.css';
+import { useI18n } from '@/hooks/useI18n';
+import { footerLinks, socialLinks, type SocialIcon } from '@/lib/content';
+import { splitLocalePath } from '@/lib/i18n';
+import { getSectionId, scrollToSection, scrollToTop } from '@/lib/navigation';
 
-// Navigation links
-const footerLinks = [
-  { href: '#about', label: 'About' },
-  { href: '#skills', label: 'Skills' },
-  { href: '#projects', label: 'Projects' },
-  { href: '#contact', label: 'Contact' },
-];
-
-// Social media links
-const socialLinks = [
-  {
-    name: 'GitHub',
-    href: 'https://github.com',
-    icon: (
-      <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
-        <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
-      </svg>
-    ),
-  },
-  {
-    name: 'LinkedIn',
-    href: 'https://linkedin.com',
-    icon: (
-      <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
-        <path d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z" />
-      </svg>
-    ),
-  },
-  {
-    name: 'Twitter',
-    href: 'https://twitter.com',
-    icon: (
-      <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
-        <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z" />
-      </svg>
-    ),
-  },
-];
+// Inline SVG icons keyed by the `icon` field of content/social.json
+const socialIcons: Record<SocialIcon, React.ReactNode> = {
+  github: (
+    <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+      <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
+    </svg>
+  ),
+  linkedin: (
+    <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+      <path d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z" />
+    </svg>
+  ),
+  twitter: (
+    <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+      <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z" />
+    </svg>
+  ),
+};
 
 export const Footer: React.FC = () => {
+  const { t, rich, localizePath } = useI18n();
   const currentYear = new Date().getFullYear();
+  const isHome = splitLocalePath(usePathname()).path === '/';
 
   /**
    * Handle smooth scroll navigation
@@ -73,24 +62,15 @@ export const Footer: React.FC = () => {
     e: React.MouseEvent<HTMLAnchorElement>,
     href: string
   ) => {
-    e.preventDefault();
-    const targetId = href.replace('#', '');
-    const targetElement = document.getElementById(targetId);
-    
-    if (targetElement) {
-      const headerOffset = 80;
-      const elementPosition = targetElement.getBoundingClientRect().top;
-      const offsetPosition = elementPosition + window.pageYOffset - headerOffset;
-      
-      window.scrollTo({
-        top: offsetPosition,
-        behavior: 'smooth',
-      });
+    // Page links and sections on other pages navigate normally
+    const targetId = getSectionId(href);
+    if (targetId && scrollToSection(targetId)) {
+      e.preventDefault();
     }
   };
 
   return (
-    <footer className={styles.footer} role="contentinfo">
+    <footer className={`${styles.footer} no-print`} role="contentinfo">
       {/* Tri-colour accent bar */}
       <div className={styles.accentBar} aria-hidden="true">
         <div className={styles.accentSaffron} />
@@ -102,36 +82,36 @@ export const Footer: React.FC = () => {
         <div className={styles.content}>
           {/* Brand Section */}
           <div className={styles.brand}>
-            <a 
-              href="#" 
+            <Link 
+              href={localizePath('/')}
               className={styles.logo}
-              aria-label="Go to top of page"
+              aria-label={isHome ? t('footer.topOfPage') : t('footer.homeLabel')}
               onClick={(e) => {
-                e.preventDefault();
-                window.scrollTo({ top: 0, behavior: 'smooth' });
+                if (isHome) {
+                  e.preventDefault();
+                  scrollToTop();
+                }
               }}
             >
               <span className={styles.logoIcon}>🛡️</span>
-              <span className={styles.logoText}>Jagat Pradhan</span>
-            </a>
-            <p className={styles.tagline}>
-              Product Security Engineer - Securing products, one line of code at a time.
-            </p>
+              <span className={styles.logoText}>{t('header.logo')}</span>
+            </Link>
+            <p className={styles.tagline}>{t('footer.tagline')}</p>
           </div>
 
           {/* Navigation Links */}
-          <nav className={styles.nav} aria-label="Footer navigation">
-            <h3 className={styles.navTitle}>Quick Links</h3>
+          <nav className={styles.nav} aria-label={t('footer.nav')}>
+            <h3 className={styles.navTitle}>{t('footer.quickLinks')}</h3>
             <ul className={styles.navList}>
               {footerLinks.map((link) => (
                 <li key={link.href}>
-                  <a
-                    href={link.href}
+                  <Link
+                    href={localizePath(link.href)}
                     className={styles.navLink}
                     onClick={(e) => handleNavClick(e, link.href)}
                   >
-                    {link.label}
-                  </a>
+                    {t(`nav.${link.label}`)}
+                  </Link>
                 </li>
               ))}
             </ul>
@@ -139,18 +119,18 @@ export const Footer: React.FC = () => {
 
           {/* Social Links */}
           <div className={styles.social}>
-            <h3 className={styles.navTitle}>Connect</h3>
-            <ul className={styles.socialList} aria-label="Social media links">
+            <h3 className={styles.navTitle}>{t('footer.connect')}</h3>
+            <ul className={styles.socialList} aria-label={t('footer.social')}>
               {socialLinks.map((social) => (
-                <li key={social.name}>
+                <li key={social.id}>
                   <a
                     href={social.href}
                     className={styles.socialLink}
                     target="_blank"
                     rel="noopener noreferrer"
-                    aria-label={`Follow on ${social.name}`}
+                    aria-label={t('footer.followOn', { name: social.name })}
                   >
-                    <span className={styles.socialIcon}>{social.icon}</span>
+                    <span className={styles.socialIcon}>{socialIcons[social.icon]}</span>
                     <span className={styles.socialName}>{social.name}</span>
                   </a>
                 </li>
@@ -162,13 +142,13 @@ export const Footer: React.FC = () => {
         {/* Bottom Bar */}
         <div className={styles.bottom}>
           <p className={styles.copyright}>
-            © {currentYear} Jagat Pradhan. All rights reserved.
+            {t('footer.copyright', { year: String(currentYear) })}
           </p>
           <p className={styles.credits}>
-            Built with{' '}
-            <span aria-hidden="true">💙</span>
-            <span className={styles.visuallyHidden}>love</span>
-            {' '}using Next.js & React
+            {rich('footer.credits', {
+              heart: (chunk) => <span aria-hidden="true">{chunk}</span>,
+              love: (chunk) => <span className={styles.visuallyHidden}>{chunk}</span>,
+            })}
           </p>
         </div>
       </div>
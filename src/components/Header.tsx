@@ -6,8 +6,12 @@
  * Responsive navigation header with:
  * - Fixed positioning for persistent visibility
  * - Mobile hamburger menu with smooth transitions
- * - Smooth scroll navigation to sections
+ * - Smooth scroll navigation to sections (lib/navigation)
+ * - Scroll spy: the link for the section being read gets aria-current,
+ *   and the URL hash follows it (useSectionNavigation)
+ * - Reading progress bar along the bottom edge
  * - Background blur effect on scroll
+ * - Locale switcher next to the theme toggle
  * 
  * Accessibility Features:
  * - ARIA labels on navigation
@@ -22,24 +26,34 @@
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
 import styles from './Header.module.css';
+import { LocaleSwitcher } from './LocaleSwitcher';
+import { ReadingProgress } from './ReadingProgress';
 import { ThemeToggle } from './ThemeToggle';
-
-// Navigation items configuration
-const navItems = [
-  { href: '#about', label: 'About' },
-  { href: '#skills', label: 'Skills' },
-  { href: '#projects', label: 'Projects' },
-  { href: '#contact', label: 'Contact' },
-];
+import { useI18n } from '@/hooks/useI18n';
+import { useSectionNavigation } from '@/hooks/useSectionNavigation';
+import { navItems } from '@/lib/content';
+import { splitLocalePath } from '@/lib/i18n';
+import { getSectionId, scrollToSection, scrollToTop } from '@/lib/navigation';
 
 export const Header: React.FC = () => {
+  const { t, localizePath } = useI18n();
+
   // State for mobile menu visibility
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   
   // State for header background on scroll
   const [isScrolled, setIsScrolled] = useState(false);
 
+  // Section links scroll in place on the home page and navigate elsewhere
+  const isHome = splitLocalePath(usePathname()).path === '/';
+
+  // Section being read, highlighted in both navs
+  const activeSection = useSectionNavigation();
+  const isActive = (href: string) => isHome && getSectionId(href) === activeSection;
+
   /**
    * Handle scroll event to add background to header
    * Uses useCallback for performance optimization
@@ -51,31 +65,19 @@ export const Header: React.FC = () => {
 
   /**
    * Handle smooth scroll navigation
-   * Closes mobile menu and scrolls to section
+   * Closes mobile menu and scrolls to section when it is on this page
    */
   const handleNavClick = useCallback((
     e: React.MouseEvent<HTMLAnchorElement>,
     href: string
   ) => {
-    e.preventDefault();
-    
     // Close mobile menu if open
     setIsMenuOpen(false);
     
-    // Get target element and scroll smoothly
-    const targetId = href.replace('#', '');
-    const targetElement = document.getElementById(targetId);
-    
-    if (targetElement) {
-      // Calculate offset for fixed header (80px)
-      const headerOffset = 80;
-      const elementPosition = targetElement.getBoundingClientRect().top;
-      const offsetPosition = elementPosition + window.pageYOffset - headerOffset;
-      
-      window.scrollTo({
-        top: offsetPosition,
-        behavior: 'smooth',
-      });
+    // Page links (e.g. /blog/) and sections on other pages navigate normally
+    const targetId = getSectionId(href);
+    if (targetId && scrollToSection(targetId)) {
+      e.preventDefault();
     }
   }, []);
 
@@ -121,39 +123,42 @@ export const Header: React.FC = () => {
 
   return (
     <header 
-      className={`${styles.header} ${isScrolled ? styles.scrolled : ''}`}
+      className={`${styles.header} ${isScrolled ? styles.scrolled : ''} no-print`}
       role="banner"
     >
       <div className={styles.container}>
         {/* Logo/Brand */}
-        <a 
-          href="#" 
+        <Link 
+          href={localizePath('/')}
           className={styles.logo}
-          aria-label="Go to homepage"
+          aria-label={t('header.homeLabel')}
           onClick={(e) => {
-            e.preventDefault();
-            window.scrollTo({ top: 0, behavior: 'smooth' });
+            if (isHome) {
+              e.preventDefault();
+              scrollToTop();
+            }
           }}
         >
           <span className={styles.logoIcon}>🛡️</span>
-          <span className={styles.logoText}>Jagat Pradhan</span>
-        </a>
+          <span className={styles.logoText}>{t('header.logo')}</span>
+        </Link>
 
         {/* Desktop Navigation */}
         <nav 
           className={styles.desktopNav}
-          aria-label="Main navigation"
+          aria-label={t('header.mainNav')}
         >
           <ul className={styles.navList}>
             {navItems.map((item) => (
               <li key={item.href}>
-                <a
-                  href={item.href}
+                <Link
+                  href={localizePath(item.href)}
                   className={styles.navLink}
+                  aria-current={isActive(item.href) ? 'location' : undefined}
                   onClick={(e) => handleNavClick(e, item.href)}
                 >
-                  {item.label}
-                </a>
+                  {t(`nav.${item.label}`)}
+                </Link>
               </li>
             ))}
           </ul>
@@ -161,6 +166,9 @@ export const Header: React.FC = () => {
 
         {/* Right side controls - Theme toggle + Mobile menu */}
         <div className={styles.rightControls}>
+          {/* Locale Switcher */}
+          <LocaleSwitcher />
+
           {/* Theme Toggle */}
           <ThemeToggle />
 
@@ -170,7 +178,7 @@ export const Header: React.FC = () => {
           onClick={toggleMenu}
           aria-expanded={isMenuOpen}
           aria-controls="mobile-menu"
-          aria-label={isMenuOpen ? 'Close menu' : 'Open menu'}
+          aria-label={isMenuOpen ? t('header.closeMenu') : t('header.openMenu')}
         >
           <span className={styles.menuBar}></span>
           <span className={styles.menuBar}></span>
@@ -190,7 +198,7 @@ export const Header: React.FC = () => {
         <nav
           id="mobile-menu"
           className={`${styles.mobileNav} ${isMenuOpen ? styles.mobileNavOpen : ''}`}
-          aria-label="Mobile navigation"
+          aria-label={t('header.mobileNav')}
           aria-hidden={!isMenuOpen}
         >
           <ul className={styles.mobileNavList}>
@@ -202,19 +210,23 @@ export const Header: React.FC = () => {
                 }}
                 className={styles.mobileNavItem}
               >
-                <a
-                  href={item.href}
+                <Link
+                  href={localizePath(item.href)}
                   className={styles.mobileNavLink}
+                  aria-current={isActive(item.href) ? 'location' : undefined}
                   onClick={(e) => handleNavClick(e, item.href)}
                   tabIndex={isMenuOpen ? 0 : -1}
                 >
-                  {item.label}
-                </a>
+                  {t(`nav.${item.label}`)}
+                </Link>
               </li>
             ))}
           </ul>
         </nav>
       </div>
+
+      {/* Reading Progress */}
+      <ReadingProgress />
     </header>
   );
 };
@@ -6,7 +6,7 @@
  * The main landing section of the portfolio featuring:
  * - Animated headline with gradient text
  * - Professional tagline and description
- * - Call-to-action buttons
+ * - Call-to-action buttons, including the build-time résumé PDF
  * - Animated decorative elements
  * 
  * Accessibility:
@@ -16,66 +16,43 @@
  * - Screen reader friendly content structure
  * 
  * Animations:
- * - Staggered fade-in for text elements (0.3-0.5s)
+ * - Staggered fade-in for text elements (0.3-0.5s), pure CSS so the
+ *   first screen animates at first paint without waiting for hydration
+ *   (the sections below use <Reveal>)
  * - Floating effect on decorative elements
  * - Smooth hover transitions on buttons
  */
 
-import React, { useEffect, useRef } from 'react';
+import React from 'react';
 import styles from './Hero.module.css';
+import { useI18n } from '@/hooks/useI18n';
+import { scrollToSection } from '@/lib/navigation';
+import { siteConfig, withBasePath } from '@/lib/site';
 
-export const Hero: React.FC = () => {
-  const sectionRef = useRef<HTMLElement>(null);
+const { email, phone } = siteConfig.author;
 
+interface HeroProps {
   /**
-   * Intersection Observer for scroll-triggered animations
-   * Adds 'visible' class when section enters viewport
+   * Whole years across all roles in content/experience.json, or the
+   * siteConfig fallback while that file is empty
    */
-  useEffect(() => {
-    const observer = new IntersectionObserver(
-      (entries) => {
-        entries.forEach((entry) => {
-          if (entry.isIntersecting) {
-            entry.target.classList.add(styles.visible);
-          }
-        });
-      },
-      { threshold: 0.1 }
-    );
+  yearsOfExperience: number;
+}
 
-    const section = sectionRef.current;
-    if (section) {
-      observer.observe(section);
-    }
-
-    return () => {
-      if (section) {
-        observer.unobserve(section);
-      }
-    };
-  }, []);
+export const Hero: React.FC<HeroProps> = ({ yearsOfExperience }) => {
+  const { t, rich } = useI18n();
 
   /**
-   * Smooth scroll to contact section
+   * Smooth scroll to a section of this page
    */
-  const scrollToContact = (e: React.MouseEvent<HTMLAnchorElement>) => {
-    e.preventDefault();
-    const contactSection = document.getElementById('contact');
-    if (contactSection) {
-      const headerOffset = 80;
-      const elementPosition = contactSection.getBoundingClientRect().top;
-      const offsetPosition = elementPosition + window.pageYOffset - headerOffset;
-      
-      window.scrollTo({
-        top: offsetPosition,
-        behavior: 'smooth',
-      });
+  const handleSectionClick = (e: React.MouseEvent<HTMLAnchorElement>, id: string) => {
+    if (scrollToSection(id)) {
+      e.preventDefault();
     }
   };
 
   return (
     <section
-      ref={sectionRef}
       id="about"
       className={styles.hero}
       aria-labelledby="hero-heading"
@@ -88,71 +65,71 @@ export const Hero: React.FC = () => {
           {/* Professional Tag */}
           <span className={styles.tag}>
             <span className={styles.tagIcon}>🔐</span>
-            Product Security Engineer
+            {t('profile.jobTitle')}
           </span>
 
           {/* Name */}
           <h1 id="hero-heading" className={styles.heading}>
-            Hi, I&apos;m{' '}
-            <span className={styles.gradient}>Jagat Pradhan</span>
+            {rich('hero.greeting', {
+              name: (chunk) => <span className={styles.gradient}>{chunk}</span>,
+            })}
           </h1>
 
           {/* Contact Info Bar */}
           <div className={styles.contactBar}>
-            <a href="mailto:maajagat@gmail.com" className={styles.contactItem}>
+            <a href={`mailto:${email}`} className={styles.contactItem}>
               <span className={styles.contactIcon}>📧</span>
-              maajagat@gmail.com
+              {email}
             </a>
-            <a href="tel:+919910045106" className={styles.contactItem}>
+            <a href={`tel:${phone.replace(/\s/g, '')}`} className={styles.contactItem}>
               <span className={styles.contactIcon}>📱</span>
-              +91 9910045106
+              {phone}
             </a>
           </div>
 
           {/* Description */}
-          <p className={styles.description}>
-            I&apos;m a passionate Product Security Engineer specializing in building secure 
-            software development lifecycles, implementing robust cloud security architectures, 
-            and integrating security seamlessly into CI/CD pipelines. With expertise in 
-            threat modelling and vulnerability management, I help organizations shift 
-            security left without compromising development velocity.
-          </p>
+          <p className={styles.description}>{t('profile.bio')}</p>
 
           {/* Call-to-Action Buttons */}
           <div className={styles.cta}>
             <a
               href="#projects"
               className={styles.btnPrimary}
-              onClick={(e) => {
-                e.preventDefault();
-                const projectsSection = document.getElementById('projects');
-                if (projectsSection) {
-                  projectsSection.scrollIntoView({ behavior: 'smooth' });
-                }
-              }}
+              onClick={(e) => handleSectionClick(e, 'projects')}
             >
               <span className={styles.btnIcon}>🚀</span>
-              View My Work
+              {t('hero.viewWork')}
             </a>
             <a
               href="#contact"
               className={styles.btnSecondary}
-              onClick={scrollToContact}
+              onClick={(e) => handleSectionClick(e, 'contact')}
             >
               <span className={styles.btnIcon}>💬</span>
-              Get In Touch
+              {t('hero.getInTouch')}
+            </a>
+            {/* Plain <a> so the browser downloads the file generated at build time */}
+            <a
+              href={withBasePath('/resume.pdf')}
+              className={styles.btnSecondary}
+              download
+            >
+              <span className={styles.btnIcon}>📄</span>
+              {t('hero.downloadCv')}
             </a>
           </div>
 
           {/* Quick Stats */}
-          <div className={styles.stats} role="list" aria-label="Professional highlights">
+          <div className={styles.stats} role="list" aria-label={t('hero.highlights')}>
             <div className={styles.stat} role="listitem">
-              <span className={styles.statNumber}>13+</span>
-              <span className={styles.statLabel}>Years Experience</span>
+              <span className={styles.statNumber}>
+                {t('hero.statPlus', { count: yearsOfExperience })}
+              </span>
+              <span className={styles.statLabel}>{t('hero.yearsExperience')}</span>
             </div>
             <div className={styles.stat} role="listitem">
-              <span className={styles.statNumber}>10+</span>
-              <span className={styles.statLabel}>Security Projects</span>
+              <span className={styles.statNumber}>{t('hero.statPlus', { count: 10 })}</span>
+              <span className={styles.statLabel}>{t('hero.securityProjects')}</span>
             </div>
           </div>
         </div>
@@ -179,7 +156,7 @@ export const Hero: React.FC = () => {
         <div className={styles.scrollMouse}>
           <div className={styles.scrollWheel}></div>
         </div>
-        <span className={styles.scrollText}>Scroll to explore</span>
+        <span className={styles.scrollText}>{t('hero.scroll')}</span>
       </div>
     </section>
   );
@@ -0,0 +1,28 @@
+'use client';
+
+/**
+ * I18nProvider Component
+ *
+ * Makes the page's locale and message catalog available to client
+ * components through useI18n(). Rendered by the [locale] layout, which
+ * passes only the catalog for that locale.
+ */
+
+import React, { createContext, useMemo } from 'react';
+import { createTranslator, type Locale, type Messages, type Translator } from '@/lib/i18n';
+
+export const I18nContext = createContext<Translator | null>(null);
+
+interface I18nProviderProps {
+  locale: Locale;
+  messages: Messages;
+  children: React.ReactNode;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ locale, messages, children }) => {
+  const translator = useMemo(() => createTranslator(locale, messages), [locale, messages]);
+
+  return <I18nContext.Provider value={translator}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,24 @@
+/**
+ * JsonLd Component
+ *
+ * Renders a schema.org JSON-LD document as a script tag.
+ * "<" is escaped so content can never close the script element early.
+ */
+
+import React from 'react';
+import type { JsonLdNode } from '@/lib/structuredData';
+
+interface JsonLdProps {
+  data: JsonLdNode;
+}
+
+export const JsonLd: React.FC<JsonLdProps> = ({ data }) => {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    />
+  );
+};
+
+export default JsonLd;
@@ -0,0 +1,47 @@
+/**
+ * LocaleRedirect Component
+ *
+ * Body of the pages exported at the unprefixed URLs (/, /blog/, ...):
+ * forwards to the same path under the visitor's locale with an inline
+ * script, falling back to a meta refresh to the default locale and to
+ * plain links when neither runs.
+ *
+ * The page is not indexed; its canonical URL is the default locale's.
+ */
+
+import React from 'react';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_NAMES, getLocaleRedirectScript, localizePath } from '@/lib/i18n';
+import { absoluteUrl, withBasePath } from '@/lib/site';
+
+interface LocaleRedirectProps {
+  /** Unprefixed path of this page, e.g. "/blog/" */
+  path: string;
+}
+
+export const LocaleRedirect: React.FC<LocaleRedirectProps> = ({ path }) => {
+  const fallback = withBasePath(localizePath(DEFAULT_LOCALE, path));
+
+  return (
+    <>
+      {/* React hoists these into <head> */}
+      <meta httpEquiv="refresh" content={`0; url=${fallback}`} />
+      <link rel="canonical" href={absoluteUrl(localizePath(DEFAULT_LOCALE, path))} />
+
+      <script dangerouslySetInnerHTML={{ __html: getLocaleRedirectScript(path) }} />
+
+      <main id="main-content" role="main">
+        <ul>
+          {LOCALES.map((locale) => (
+            <li key={locale}>
+              <a href={withBasePath(localizePath(locale, path))} lang={locale} hrefLang={locale}>
+                {LOCALE_NAMES[locale]}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </main>
+    </>
+  );
+};
+
+export default LocaleRedirect;
@@ -0,0 +1,54 @@
+'use client';
+
+/**
+ * LocaleSwitcher Component
+ *
+ * Links to the current page in the other locale(s), e.g. /en/blog/ <->
+ * /hi/blog/, and remembers the choice for the unprefixed URLs.
+ *
+ * Uses a plain <a> rather than next/link: switching locale swaps the root
+ * layout (<html lang>, metadata, catalog), so a full page load is wanted.
+ *
+ * Accessibility:
+ * - Link text is the language's own name, marked up with lang/hreflang
+ * - aria-label describes the action in the current language
+ */
+
+import React from 'react';
+import { usePathname } from 'next/navigation';
+import styles from './LocaleSwitcher.module.css';
+import { useI18n } from '@/hooks/useI18n';
+import {
+  LOCALE_NAMES,
+  LOCALES,
+  localizePath,
+  rememberLocale,
+  splitLocalePath,
+} from '@/lib/i18n';
+import { withBasePath } from '@/lib/site';
+
+export const LocaleSwitcher: React.FC = () => {
+  const { locale, t } = useI18n();
+  const { path } = splitLocalePath(usePathname());
+
+  return (
+    <div className={styles.switcher} role="group" aria-label={t('locale.label')}>
+      {LOCALES.filter((other) => other !== locale).map((other) => (
+        <a
+          key={other}
+          href={withBasePath(localizePath(other, path))}
+          className={styles.link}
+          lang={other}
+          hrefLang={other}
+          aria-label={t('locale.switchTo', { language: LOCALE_NAMES[other] })}
+          onClick={() => rememberLocale(other)}
+        >
+          <span className={styles.icon} aria-hidden="true">🌐</span>
+          {LOCALE_NAMES[other]}
+        </a>
+      ))}
+    </div>
+  );
+};
+
+export default LocaleSwitcher;
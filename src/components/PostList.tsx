@@ -0,0 +1,123 @@
+/**
+ * PostList Component
+ *
+ * Blog index used by /blog/ and the tag archives at /blog/tags/[tag]/.
+ *
+ * Features:
+ * - Page heading with optional description
+ * - Tag cloud with post counts; the active tag is highlighted
+ * - Post cards with date, reading time, summary and tags
+ * - Empty state when no posts have been published yet
+ * - Interface copy in the page's locale; post titles and summaries stay
+ *   in the content language
+ *
+ * Accessibility:
+ * - Posts rendered as a list of articles with linked headings
+ * - aria-current marks the active tag
+ * - Machine-readable <time> elements
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import styles from './PostList.module.css';
+import type { Post } from '@/lib/content';
+import { CONTENT_LOCALE, type Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+
+interface PostListProps {
+  locale: Locale;
+  title: string;
+  description?: string;
+  posts: Post[];
+  tags: Array<{ tag: string; count: number }>;
+  activeTag?: string;
+}
+
+export const PostList: React.FC<PostListProps> = ({
+  locale,
+  title,
+  description,
+  posts,
+  tags,
+  activeTag,
+}) => {
+  const { t, formatDate, localizePath } = getTranslator(locale);
+
+  return (
+    <section className={styles.blog} aria-labelledby="blog-heading">
+      <div className={styles.container}>
+        {/* Page Header */}
+        <header className={styles.header}>
+          {activeTag && (
+            <Link href={localizePath('/blog/')} className={styles.backLink}>
+              <span aria-hidden="true">←</span> {t('blog.allPosts')}
+            </Link>
+          )}
+          <h1 id="blog-heading" className={styles.title}>
+            {title}
+          </h1>
+          {description && <p className={styles.subtitle}>{description}</p>}
+        </header>
+
+        {/* Tag Cloud */}
+        {tags.length > 0 && (
+          <nav className={styles.tags} aria-label={t('blog.browseTags')}>
+            <ul className={styles.tagList}>
+              {tags.map(({ tag, count }) => (
+                <li key={tag}>
+                  <Link
+                    href={localizePath(`/blog/tags/${tag}/`)}
+                    className={`${styles.tag} ${tag === activeTag ? styles.tagActive : ''}`}
+                    aria-current={tag === activeTag ? 'page' : undefined}
+                  >
+                    #{tag}
+                    <span className={styles.tagCount}>{count}</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+
+        {/* Posts */}
+        {posts.length === 0 ? (
+          <p className={styles.empty}>{t('blog.empty')}</p>
+        ) : (
+          <ul className={styles.posts}>
+            {posts.map((post) => (
+              <li key={post.slug}>
+                <article className={styles.card} aria-labelledby={`post-${post.slug}`}>
+                  <div className={styles.meta}>
+                    <time dateTime={post.date}>{formatDate(post.date)}</time>
+                    <span aria-hidden="true">·</span>
+                    <span>{t('blog.readingTime', { count: post.readingTime })}</span>
+                    {post.draft && <span className={styles.draft}>{t('blog.draft')}</span>}
+                  </div>
+                  <h2 id={`post-${post.slug}`} className={styles.postTitle} lang={CONTENT_LOCALE}>
+                    <Link href={localizePath(`/blog/${post.slug}/`)} className={styles.postLink}>
+                      {post.title}
+                    </Link>
+                  </h2>
+                  <p className={styles.summary} lang={CONTENT_LOCALE}>
+                    {post.summary}
+                  </p>
+                  <ul className={styles.postTags} aria-label={t('blog.tags')}>
+                    {post.tags.map((tag) => (
+                      <li key={tag}>
+                        <Link href={localizePath(`/blog/tags/${tag}/`)} className={styles.postTag}>
+                          #{tag}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </article>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default PostList;
@@ -0,0 +1,178 @@
+/**
+ * ProjectDetail Component
+ *
+ * Full write-up for a single project, rendered at /projects/[slug]/.
+ *
+ * Features:
+ * - Breadcrumb back to the Projects section
+ * - Lead summary followed by the full write-up
+ * - Technology list and GitHub/demo links
+ * - Previous/next navigation between projects
+ * - Interface copy in the page's locale; the write-up is marked up with
+ *   the content language
+ *
+ * Accessibility:
+ * - Semantic article structure with a single h1
+ * - Labelled navigation landmarks for breadcrumb and pagination
+ * - External link attributes (noopener, noreferrer)
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import styles from './ProjectDetail.module.css';
+import type { Project } from '@/lib/content';
+import { CONTENT_LOCALE, type Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+
+interface ProjectDetailProps {
+  locale: Locale;
+  project: Project;
+  previous?: Project;
+  next?: Project;
+}
+
+export const ProjectDetail: React.FC<ProjectDetailProps> = ({
+  locale,
+  project,
+  previous,
+  next,
+}) => {
+  const { t, localizePath } = getTranslator(locale);
+
+  return (
+    <article
+      className={styles.detail}
+      data-accent={project.color}
+      aria-labelledby="project-heading"
+    >
+      <div className={styles.container}>
+        {/* Breadcrumb */}
+        <nav className={styles.breadcrumb} aria-label={t('project.breadcrumb')}>
+          <Link href={localizePath('/#projects')} className={styles.backLink}>
+            <span aria-hidden="true">←</span> {t('project.allProjects')}
+          </Link>
+        </nav>
+
+        {/* Project Header */}
+        <header className={styles.header}>
+          <div className={styles.meta}>
+            <span className={styles.icon} aria-hidden="true">
+              {project.icon}
+            </span>
+            <span className={styles.category}>{project.category}</span>
+          </div>
+          <h1 id="project-heading" className={styles.title} lang={CONTENT_LOCALE}>
+            {project.title}
+          </h1>
+          <p className={styles.description} lang={CONTENT_LOCALE}>
+            {project.description}
+          </p>
+        </header>
+
+        {/* Write-up */}
+        <div className={styles.body} lang={CONTENT_LOCALE}>
+          <p className={styles.lead}>{project.longDescription}</p>
+          {project.writeup?.map((paragraph, index) => (
+            <p key={index} className={styles.paragraph}>
+              {paragraph}
+            </p>
+          ))}
+        </div>
+
+        {/* Technologies */}
+        <section className={styles.section} aria-labelledby="project-technologies">
+          <h2 id="project-technologies" className={styles.sectionTitle}>
+            {t('project.technologies')}
+          </h2>
+          <ul className={styles.technologies}>
+            {project.technologies.map((tech) => (
+              <li key={tech} className={styles.techTag}>
+                {tech}
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {/* Action Links */}
+        {(project.github || project.demo) && (
+          <div className={styles.links}>
+            {project.github && (
+              <a
+                href={project.github}
+                className={styles.link}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-label={t('projects.codeLabel', { title: project.title })}
+              >
+                <svg
+                  className={styles.linkIcon}
+                  viewBox="0 0 24 24"
+                  fill="currentColor"
+                  aria-hidden="true"
+                >
+                  <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
+                </svg>
+                {t('project.viewCode')}
+              </a>
+            )}
+            {project.demo && (
+              <a
+                href={project.demo}
+                className={`${styles.link} ${styles.linkPrimary}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-label={t('projects.demoLabel', { title: project.title })}
+              >
+                <svg
+                  className={styles.linkIcon}
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  aria-hidden="true"
+                >
+                  <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6" />
+                  <polyline points="15 3 21 3 21 9" />
+                  <line x1="10" y1="14" x2="21" y2="3" />
+                </svg>
+                {t('project.liveDemo')}
+              </a>
+            )}
+          </div>
+        )}
+
+        {/* Previous / Next Navigation */}
+        <nav className={styles.pagination} aria-label={t('project.more')}>
+          {previous ? (
+            <Link
+              href={localizePath(`/projects/${previous.slug}/`)}
+              className={styles.pageLink}
+              rel="prev"
+            >
+              <span className={styles.pageLabel}>{t('project.previous')}</span>
+              <span className={styles.pageTitle} lang={CONTENT_LOCALE}>
+                {previous.title}
+              </span>
+            </Link>
+          ) : (
+            <span />
+          )}
+          {next && (
+            <Link
+              href={localizePath(`/projects/${next.slug}/`)}
+              className={`${styles.pageLink} ${styles.pageLinkNext}`}
+              rel="next"
+            >
+              <span className={styles.pageLabel}>{t('project.next')}</span>
+              <span className={styles.pageTitle} lang={CONTENT_LOCALE}>
+                {next.title}
+              </span>
+            </Link>
+          )}
+        </nav>
+      </div>
+    </article>
+  );
+};
+
+export default ProjectDetail;
@@ -0,0 +1,52 @@
+'use client';
+
+/**
+ * ReadingProgress Component
+ *
+ * Thin tri-colour bar along the bottom edge of the header that fills as
+ * the page is scrolled.
+ *
+ * The width is written straight to the element's style on each animation
+ * frame, so scrolling does not re-render the header. Decorative: the
+ * scrollbar already tells assistive technology how far along the page is.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import styles from './ReadingProgress.module.css';
+import { getScrollProgress } from '@/lib/navigation';
+
+export const ReadingProgress: React.FC = () => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const bar = barRef.current;
+    if (!bar) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      bar.style.transform = `scaleX(${getScrollProgress()})`;
+    };
+    const handleScroll = () => {
+      if (!frame) frame = window.requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll, { passive: true });
+
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+    };
+  }, []);
+
+  return (
+    <div className={styles.track} aria-hidden="true">
+      <div ref={barRef} className={styles.bar} />
+    </div>
+  );
+};
+
+export default ReadingProgress;
@@ -0,0 +1,149 @@
+'use client';
+
+/**
+ * Research Component
+ *
+ * CVEs, security advisories and bug bounty acknowledgements, imported at
+ * build time from the export files in content/research/ and passed in by
+ * the page (the importer reads the filesystem, so it cannot run here).
+ *
+ * Features:
+ * - Cards in the same style as Projects, accented by severity
+ * - Severity badge, CVSS score and vector, affected product, disclosure date
+ * - Sort by newest, severity or CVSS score
+ * - Reveal-on-scroll animations (shared <Reveal> observer)
+ *
+ * Accessibility:
+ * - Severity is written out in the badge, not conveyed by colour alone
+ * - Sort buttons expose aria-pressed
+ * - Advisory links state which finding they open
+ */
+
+import React, { useMemo, useState } from 'react';
+import styles from './Research.module.css';
+import { Reveal } from './Reveal';
+import { useI18n } from '@/hooks/useI18n';
+import type { ResearchEntry } from '@/lib/content';
+import { RESEARCH_SORTS, sortResearch, type ResearchSort } from '@/lib/research';
+
+interface ResearchProps {
+  entries: ResearchEntry[];
+}
+
+export const Research: React.FC<ResearchProps> = ({ entries }) => {
+  const { t, formatDate } = useI18n();
+  const [sort, setSort] = useState<ResearchSort>('newest');
+
+  const sortedEntries = useMemo(() => sortResearch(entries, sort), [entries, sort]);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <section
+      id="research"
+      className={styles.research}
+      aria-labelledby="research-heading"
+    >
+      <div className={styles.container}>
+        {/* Section Header */}
+        <header className={styles.header}>
+          <Reveal as="h2" id="research-heading" className={styles.title}>
+            {t('research.title')}
+          </Reveal>
+          <Reveal as="p" className={styles.subtitle}>
+            {t('research.subtitle')}
+          </Reveal>
+        </header>
+
+        {/* Sort */}
+        <Reveal
+          className={styles.toolbar}
+          role="group"
+          aria-label={t('research.sortGroup')}
+        >
+          <span className={styles.sortLabel} aria-hidden="true">
+            {t('research.sortBy')}
+          </span>
+          <div className={styles.sortOptions}>
+            {RESEARCH_SORTS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`${styles.sortButton} ${sort === option ? styles.sortActive : ''}`}
+                aria-pressed={sort === option}
+                onClick={() => setSort(option)}
+              >
+                {t(`research.sort.${option}`)}
+              </button>
+            ))}
+          </div>
+        </Reveal>
+
+        {/* Findings Grid */}
+        <div className={styles.grid} role="list" aria-label={t('research.list')}>
+          {sortedEntries.map((entry) => (
+            <Reveal
+              as="article"
+              key={entry.id}
+              className={`${styles.card} ${styles[entry.severity]}`}
+              role="listitem"
+              aria-labelledby={`research-${entry.id}`}
+            >
+              {/* Card Header with Kind and Severity */}
+              <div className={styles.cardHeader}>
+                <span className={styles.kind}>
+                  {t(`research.kind.${entry.kind}`)}
+                  {entry.kind !== 'bounty' && <span className={styles.id}>{entry.id}</span>}
+                </span>
+                <span className={styles.severity}>
+                  {t(`research.severity.${entry.severity}`)}
+                  {entry.cvssScore !== undefined && ` · ${entry.cvssScore.toFixed(1)}`}
+                </span>
+              </div>
+
+              <h3 id={`research-${entry.id}`} className={styles.findingTitle}>
+                {entry.title}
+              </h3>
+
+              <dl className={styles.meta}>
+                <div>
+                  <dt>{t('research.product')}</dt>
+                  <dd>{entry.product}</dd>
+                </div>
+                <div>
+                  <dt>{t('research.disclosed')}</dt>
+                  <dd>
+                    <time dateTime={entry.disclosed}>{formatDate(entry.disclosed)}</time>
+                  </dd>
+                </div>
+              </dl>
+
+              {entry.cvssVector && (
+                <code className={styles.vector} title={t('research.cvssVector')}>
+                  {entry.cvssVector}
+                </code>
+              )}
+
+              <div className={styles.links}>
+                <a
+                  href={entry.url}
+                  className={styles.link}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  aria-label={t('research.linkLabel', { title: entry.title })}
+                >
+                  {entry.kind === 'bounty' ? t('research.viewReport') : t('research.readAdvisory')}
+                  <span aria-hidden="true">↗</span>
+                </a>
+              </div>
+            </Reveal>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default Research;
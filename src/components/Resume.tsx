@@ -0,0 +1,174 @@
+/**
+ * Resume Component
+ *
+ * One-page CV at /resume/, built from the same content as the rest of the
+ * site. The build renders this page to out/resume.pdf with a headless
+ * browser (scripts/generate-resume-pdf.mjs), so the screen and print
+ * layouts are the same markup.
+ *
+ * Features:
+ * - Contact details and social profiles from siteConfig / social.json
+ * - Experience from experience.json, most recent first (left out while
+ *   the file is empty)
+ * - Skills grouped by `skillCategories`
+ * - Projects marked `featured` in projects.json
+ * - Headings and labels in the page's locale; the PDF is rendered from
+ *   the default locale's page
+ *
+ * Accessibility:
+ * - Single h1; each section is labelled by its h2
+ * - Machine-readable <time> elements for role dates
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import styles from './Resume.module.css';
+import { experience, projects, skillCategories, socialLinks, tools } from '@/lib/content';
+import { CONTENT_LOCALE, DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+import { absoluteUrl, siteConfig, withBasePath } from '@/lib/site';
+
+interface ResumeProps {
+  locale: Locale;
+}
+
+export const Resume: React.FC<ResumeProps> = ({ locale }) => {
+  const { t, formatMonth, localizePath } = getTranslator(locale);
+  const { email, phone, location } = siteConfig.author;
+  const website = absoluteUrl(localizePath('/'));
+  const selectedProjects = projects.filter((project) => project.featured);
+
+  return (
+    <article className={styles.resume} aria-labelledby="resume-heading">
+      <div className={styles.container}>
+        {/* Toolbar (screen only) */}
+        <div className={`${styles.toolbar} no-print`}>
+          <Link href={localizePath('/')} className={styles.backLink}>
+            <span aria-hidden="true">←</span> {t('resume.back')}
+          </Link>
+          <a
+            href={withBasePath('/resume.pdf')}
+            className={styles.download}
+            hrefLang={DEFAULT_LOCALE}
+            download
+          >
+            {t('resume.download')}
+          </a>
+        </div>
+
+        <div className={styles.sheet}>
+          {/* Header */}
+          <header className={styles.header}>
+            <h1 id="resume-heading" className={styles.name}>
+              {t('profile.name')}
+            </h1>
+            <p className={styles.jobTitle}>{t('profile.jobTitle')}</p>
+            <ul className={styles.contact} aria-label={t('resume.contact')}>
+              <li>
+                <a href={`mailto:${email}`}>{email}</a>
+              </li>
+              <li>
+                <a href={`tel:${phone.replace(/\s/g, '')}`}>{phone}</a>
+              </li>
+              <li>{location}</li>
+              <li>
+                <a href={website}>{website.replace(/^https?:\/\//, '')}</a>
+              </li>
+              {socialLinks.map((link) => (
+                <li key={link.id}>
+                  <a href={link.href}>{link.name}</a>
+                </li>
+              ))}
+            </ul>
+          </header>
+
+          {/* Summary */}
+          <section className={styles.section} aria-labelledby="resume-summary">
+            <h2 id="resume-summary" className={styles.sectionTitle}>
+              {t('resume.summary')}
+            </h2>
+            <p className={styles.summary}>{t('profile.bio')}</p>
+          </section>
+
+          {/* Experience */}
+          {experience.length > 0 && (
+            <section className={styles.section} aria-labelledby="resume-experience">
+              <h2 id="resume-experience" className={styles.sectionTitle}>
+                {t('resume.experience')}
+              </h2>
+              <ol className={styles.roles} lang={CONTENT_LOCALE}>
+                {experience.map((role) => (
+                  <li key={role.id} className={styles.role}>
+                    <div className={styles.roleHeader}>
+                      <h3 className={styles.roleTitle}>
+                        {role.role} · <span className={styles.company}>{role.company}</span>
+                      </h3>
+                      <span className={styles.period}>
+                        <time dateTime={role.start}>{formatMonth(role.start)}</time>
+                        {' – '}
+                        {role.end ? (
+                          <time dateTime={role.end}>{formatMonth(role.end)}</time>
+                        ) : (
+                          t('resume.present')
+                        )}
+                      </span>
+                    </div>
+                    <p className={styles.roleMeta}>
+                      {role.location} — {role.summary}
+                    </p>
+                    <ul className={styles.highlights}>
+                      {role.highlights.map((highlight) => (
+                        <li key={highlight}>{highlight}</li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+
+          {/* Skills */}
+          <section className={styles.section} aria-labelledby="resume-skills">
+            <h2 id="resume-skills" className={styles.sectionTitle}>
+              {t('resume.skills')}
+            </h2>
+            <dl className={styles.skills}>
+              {skillCategories.map((category) => (
+                <div key={category.title} className={styles.skillRow}>
+                  <dt>{category.title}</dt>
+                  <dd>{category.skills.map((skill) => skill.name).join(', ')}</dd>
+                </div>
+              ))}
+              <div className={styles.skillRow}>
+                <dt>{t('resume.tools')}</dt>
+                <dd>{tools.join(', ')}</dd>
+              </div>
+            </dl>
+          </section>
+
+          {/* Selected Projects */}
+          {selectedProjects.length > 0 && (
+            <section className={styles.section} aria-labelledby="resume-projects">
+              <h2 id="resume-projects" className={styles.sectionTitle}>
+                {t('resume.projects')}
+              </h2>
+              <ul className={styles.projects} lang={CONTENT_LOCALE}>
+                {selectedProjects.map((project) => (
+                  <li key={project.id} className={styles.project}>
+                    <h3 className={styles.projectTitle}>
+                      <a href={absoluteUrl(localizePath(`/projects/${project.slug}/`))}>{project.title}</a>
+                    </h3>
+                    <p>{project.description}</p>
+                    <p className={styles.technologies}>{project.technologies.join(' · ')}</p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </article>
+  );
+};
+
+export default Resume;
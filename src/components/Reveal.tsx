@@ -0,0 +1,61 @@
+'use client';
+
+/**
+ * Reveal Component
+ *
+ * Renders an element that fades and slides in the first time it scrolls
+ * into view (or every time, with once={false}). Replaces the per-section
+ * IntersectionObservers: every Reveal shares the observer in lib/motion.
+ *
+ * Elements that come into view together are staggered: each waits
+ * `stagger` seconds after the one before it, on top of `delay`.
+ *
+ * Content is only hidden while reveal is enabled (see lib/motion), so it
+ * shows without animation for reduced-motion visitors and without
+ * JavaScript.
+ *
+ * Usage:
+ * <Reveal as="article" className={styles.card}>...</Reveal>
+ */
+
+import React, { createElement } from 'react';
+import styles from './Reveal.module.css';
+import { useInView } from '@/hooks/useInView';
+
+type RevealElement = 'div' | 'article' | 'header' | 'section' | 'li' | 'h2' | 'p' | 'form';
+
+interface RevealProps extends React.AllHTMLAttributes<HTMLElement> {
+  as?: RevealElement;
+  /** Seconds between elements revealed together (default 0.1) */
+  stagger?: number;
+  /** Seconds before this element's reveal starts */
+  delay?: number;
+  /** Reveal once (default) or hide again when scrolled out of view */
+  once?: boolean;
+}
+
+export const Reveal: React.FC<RevealProps> = ({
+  as = 'div',
+  stagger = 0.1,
+  delay = 0,
+  once = true,
+  className,
+  style,
+  children,
+  ...props
+}) => {
+  const { ref, inView, order } = useInView<HTMLElement>({ once });
+
+  return createElement(
+    as,
+    {
+      ...props,
+      ref,
+      className: [styles.reveal, inView && styles.visible, className].filter(Boolean).join(' '),
+      style: inView ? { ...style, animationDelay: `${delay + order * stagger}s` } : style,
+    },
+    children
+  );
+};
+
+export default Reveal;
@@ -0,0 +1,159 @@
+/**
+ * SecurityPolicy Component
+ *
+ * Human-readable vulnerability disclosure policy at /security/, linked
+ * from the `Policy` field of /.well-known/security.txt. Contact details,
+ * key and expiry come from the same siteConfig values as security.txt.
+ *
+ * Features:
+ * - Reporting channels: email and the contact form, plus the PGP key,
+ *   fingerprint and encrypted form only when a key is published (a note
+ *   says so when none is)
+ * - Scope built from projects that link a public repository
+ * - Response timeline, disclosure terms and safe harbour
+ * - Translated for each locale; security.txt links the default locale's
+ *   page
+ *
+ * Accessibility:
+ * - Single h1; each section is labelled by its h2
+ * - Fingerprint in a <code> element so it is read out verbatim
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import styles from './SecurityPolicy.module.css';
+import { projects, type PgpKey } from '@/lib/content';
+import type { Locale, MessageKey } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+import { PGP_KEY_PATH, SECURITY_TXT_PATH } from '@/lib/securityTxt';
+import { siteConfig, withBasePath } from '@/lib/site';
+
+interface SecurityPolicyProps {
+  locale: Locale;
+  pgpKey: PgpKey | null;
+}
+
+const OUT_OF_SCOPE: MessageKey[] = [
+  'security.outOfScope.dos',
+  'security.outOfScope.social',
+  'security.outOfScope.thirdParty',
+  'security.outOfScope.headers',
+  'security.outOfScope.spam',
+];
+
+export const SecurityPolicy: React.FC<SecurityPolicyProps> = ({ locale, pgpKey }) => {
+  const { t, rich, formatDate, localizePath } = getTranslator(locale);
+  const { email } = siteConfig.author;
+  const repositories = projects.filter((project) => project.github);
+
+  return (
+    <article className={styles.policy} aria-labelledby="security-heading">
+      <div className={styles.container}>
+        <header className={styles.header}>
+          <h1 id="security-heading" className={styles.title}>
+            {t('security.title')}
+          </h1>
+          <p className={styles.intro}>{t('security.intro')}</p>
+        </header>
+
+        {/* Reporting */}
+        <section className={styles.section} aria-labelledby="security-report">
+          <h2 id="security-report">{t('security.reportTitle')}</h2>
+          <ul className={styles.list}>
+            <li>
+              {rich(
+                'security.reportEmail',
+                { link: (chunk) => <a href={`mailto:${email}`}>{chunk}</a> },
+                { email }
+              )}
+            </li>
+            {pgpKey ? (
+              <li>
+                {rich(
+                  'security.reportPgp',
+                  {
+                    link: (chunk) => <a href={withBasePath(PGP_KEY_PATH)}>{chunk}</a>,
+                    code: (chunk) => <code className={styles.fingerprint}>{chunk}</code>,
+                  },
+                  { fingerprint: pgpKey.fingerprint }
+                )}
+              </li>
+            ) : (
+              <li>{t('security.reportNoPgp')}</li>
+            )}
+            <li>
+              {rich(pgpKey ? 'security.reportForm' : 'security.reportFormPlain', {
+                link: (chunk) => <Link href={localizePath('/#contact')}>{chunk}</Link>,
+              })}
+            </li>
+          </ul>
+          <p>{t('security.reportDetails')}</p>
+        </section>
+
+        {/* Scope */}
+        <section className={styles.section} aria-labelledby="security-scope">
+          <h2 id="security-scope">{t('security.scopeTitle')}</h2>
+          <p>{t('security.inScope')}</p>
+          <ul className={styles.list}>
+            <li>
+              {rich(
+                'security.thisWebsite',
+                { link: (chunk) => <a href={withBasePath(localizePath('/'))}>{chunk}</a> },
+                { site: siteConfig.url.replace(/^https?:\/\//, '') }
+              )}
+            </li>
+            {repositories.map((project) => (
+              <li key={project.slug}>
+                <a href={project.github} target="_blank" rel="noopener noreferrer">
+                  {project.title}
+                </a>
+              </li>
+            ))}
+          </ul>
+          <p>{t('security.outOfScopeTitle')}</p>
+          <ul className={styles.list}>
+            {OUT_OF_SCOPE.map((item) => (
+              <li key={item}>{t(item)}</li>
+            ))}
+          </ul>
+        </section>
+
+        {/* Process */}
+        <section className={styles.section} aria-labelledby="security-process">
+          <h2 id="security-process">{t('security.processTitle')}</h2>
+          <ul className={styles.list}>
+            <li>{t('security.acknowledge', { days: 3 })}</li>
+            <li>{t('security.assess', { days: 10 })}</li>
+            <li>{t('security.disclose', { days: 90 })}</li>
+            <li>{t('security.credit')}</li>
+          </ul>
+          <p>{t('security.noBounty')}</p>
+        </section>
+
+        {/* Safe Harbour */}
+        <section className={styles.section} aria-labelledby="security-safe-harbour">
+          <h2 id="security-safe-harbour">{t('security.safeHarbourTitle')}</h2>
+          <p>{t('security.safeHarbour')}</p>
+        </section>
+
+        <footer className={styles.footer}>
+          <p>
+            {rich(
+              'security.machineReadable',
+              {
+                link: (chunk) => <a href={withBasePath(SECURITY_TXT_PATH)}>{chunk}</a>,
+                time: (chunk) => <time dateTime={siteConfig.security.expires}>{chunk}</time>,
+              },
+              {
+                path: SECURITY_TXT_PATH,
+                date: formatDate(siteConfig.security.expires.slice(0, 10)),
+              }
+            )}
+          </p>
+        </footer>
+      </div>
+    </article>
+  );
+};
+
+export default SecurityPolicy;
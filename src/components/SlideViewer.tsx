@@ -0,0 +1,189 @@
+'use client';
+
+/**
+ * SlideViewer Component
+ *
+ * Page-by-page viewer for slide decks hosted as PDFs in public/slides/.
+ * Renders with pdf.js entirely in the browser, so it works in the static
+ * export without any server.
+ *
+ * Features:
+ * - pdf.js and its worker are loaded on demand when a viewer mounts
+ * - Pages are drawn to a canvas at the container width and device pixel ratio
+ * - Previous/next buttons and ←/→ keys while the viewer has focus
+ *
+ * Accessibility:
+ * - Viewer is a labelled region; the canvas is labelled with the page number
+ * - Page position is announced via aria-live
+ * - Download link for the original PDF as a text-accessible fallback
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import styles from './SlideViewer.module.css';
+import { useI18n } from '@/hooks/useI18n';
+
+interface SlideViewerProps {
+  /** URL of the PDF, including the base path */
+  src: string;
+  title: string;
+}
+
+type LoadState = 'loading' | 'ready' | 'error';
+
+export const SlideViewer: React.FC<SlideViewerProps> = ({ src, title }) => {
+  const { t, rich } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [state, setState] = useState<LoadState>('loading');
+
+  /**
+   * Load pdf.js lazily and open the document
+   */
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | undefined;
+
+    (async () => {
+      try {
+        const pdfjs = await import('pdfjs-dist');
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+          'pdfjs-dist/build/pdf.worker.min.mjs',
+          import.meta.url
+        ).toString();
+
+        // No eval-based font rendering, so the page's CSP needs no 'unsafe-eval'
+        loaded = await pdfjs.getDocument({ url: src, isEvalSupported: false }).promise;
+        if (cancelled) return;
+
+        setPdf(loaded);
+        setPageNumber(1);
+        setState('ready');
+      } catch {
+        if (!cancelled) setState('error');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [src]);
+
+  /**
+   * Render the current page whenever it changes
+   */
+  useEffect(() => {
+    if (!pdf) return;
+
+    let renderTask: RenderTask | undefined;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const page = await pdf.getPage(pageNumber);
+        const canvas = canvasRef.current;
+        const container = containerRef.current;
+        if (cancelled || !canvas || !container) return;
+
+        const pixelRatio = window.devicePixelRatio || 1;
+        const baseViewport = page.getViewport({ scale: 1 });
+        const scale = container.clientWidth / baseViewport.width;
+        const viewport = page.getViewport({ scale: scale * pixelRatio });
+
+        canvas.width = Math.floor(viewport.width);
+        canvas.height = Math.floor(viewport.height);
+        canvas.style.width = `${Math.floor(viewport.width / pixelRatio)}px`;
+        canvas.style.height = `${Math.floor(viewport.height / pixelRatio)}px`;
+
+        renderTask = page.render({ canvas, viewport });
+        await renderTask.promise;
+      } catch {
+        // getPage and render reject once the cleanup below cancels the
+        // task or the document is destroyed on unmount
+        if (!cancelled) setState('error');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber]);
+
+  const pageCount = pdf?.numPages ?? 0;
+
+  const goTo = useCallback(
+    (page: number) => setPageNumber(Math.min(Math.max(page, 1), pageCount || 1)),
+    [pageCount]
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      goTo(pageNumber + 1);
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      goTo(pageNumber - 1);
+    }
+  };
+
+  return (
+    <div
+      className={styles.viewer}
+      role="region"
+      aria-label={t('slides.region', { title })}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
+      <div ref={containerRef} className={styles.stage}>
+        {state === 'loading' && <p className={styles.message}>{t('slides.loading')}</p>}
+        {state === 'error' && (
+          <p className={styles.message}>
+            {rich('slides.error', { link: (chunk) => <a href={src}>{chunk}</a> })}
+          </p>
+        )}
+        <canvas
+          ref={canvasRef}
+          className={styles.canvas}
+          hidden={state !== 'ready'}
+          role="img"
+          aria-label={t('slides.page', { title, page: pageNumber, total: pageCount })}
+        />
+      </div>
+
+      {state === 'ready' && (
+        <div className={styles.controls}>
+          <button
+            type="button"
+            className={styles.navButton}
+            onClick={() => goTo(pageNumber - 1)}
+            disabled={pageNumber <= 1}
+            aria-label={t('slides.previous')}
+          >
+            <span aria-hidden="true">←</span>
+          </button>
+          <span className={styles.position} aria-live="polite">
+            {pageNumber} / {pageCount}
+          </span>
+          <button
+            type="button"
+            className={styles.navButton}
+            onClick={() => goTo(pageNumber + 1)}
+            disabled={pageNumber >= pageCount}
+            aria-label={t('slides.next')}
+          >
+            <span aria-hidden="true">→</span>
+          </button>
+          <a href={src} className={styles.download} download>
+            {t('slides.download')}
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SlideViewer;
@@ -0,0 +1,190 @@
+'use client';
+
+/**
+ * Talks Component
+ *
+ * Conference talks, workshops, podcast appearances and articles from
+ * content/talks.json, grouped by year.
+ *
+ * Features:
+ * - Filter by type, with the number of entries of each type
+ * - Slides hosted in public/slides/ open in the inline SlideViewer;
+ *   externally hosted slides are linked
+ * - Video and event/article links
+ * - Reveal-on-scroll animations (shared <Reveal> observer)
+ *
+ * Accessibility:
+ * - Filter buttons expose aria-pressed
+ * - The slides toggle exposes aria-expanded and controls the viewer
+ * - External links state which entry they open
+ */
+
+import React, { useMemo, useState } from 'react';
+import styles from './Talks.module.css';
+import { Reveal } from './Reveal';
+import { useI18n } from '@/hooks/useI18n';
+import { talks, type AccentColor, type Talk, type TalkType } from '@/lib/content';
+import { withBasePath } from '@/lib/site';
+import { getTalkFilters, groupTalksByYear, isLocalPdf, type TalkFilter } from '@/lib/talks';
+import { SlideViewer } from './SlideViewer';
+
+const TYPE_ACCENTS: Record<TalkType, AccentColor> = {
+  talk: 'blue',
+  workshop: 'green',
+  podcast: 'orange',
+  article: 'purple',
+};
+
+export const Talks: React.FC = () => {
+  const { t, formatDate } = useI18n();
+  const [filter, setFilter] = useState<TalkFilter>('all');
+  const [openSlides, setOpenSlides] = useState<string | null>(null);
+
+  const filters = useMemo(() => getTalkFilters(talks), []);
+  const groups = useMemo(
+    () => groupTalksByYear(filter === 'all' ? talks : talks.filter((talk) => talk.type === filter)),
+    [filter]
+  );
+
+  if (talks.length === 0) {
+    return null;
+  }
+
+  const renderLinks = (talk: Talk) => {
+    const localSlides = talk.slides && isLocalPdf(talk.slides);
+    const viewerId = `talk-slides-${talk.id}`;
+
+    return (
+      <>
+        <div className={styles.links}>
+          {talk.slides && localSlides && (
+            <button
+              type="button"
+              className={styles.link}
+              aria-expanded={openSlides === talk.id}
+              aria-controls={viewerId}
+              onClick={() => setOpenSlides(openSlides === talk.id ? null : talk.id)}
+            >
+              {openSlides === talk.id ? t('talks.hideSlides') : t('talks.viewSlides')}
+            </button>
+          )}
+          {talk.slides && !localSlides && (
+            <a
+              href={talk.slides}
+              className={styles.link}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label={t('talks.slidesLabel', { title: talk.title })}
+            >
+              {t('talks.slides')} <span aria-hidden="true">↗</span>
+            </a>
+          )}
+          {talk.video && (
+            <a
+              href={talk.video}
+              className={styles.link}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label={t('talks.videoLabel', { title: talk.title })}
+            >
+              {t('talks.video')} <span aria-hidden="true">↗</span>
+            </a>
+          )}
+          {talk.url && (
+            <a
+              href={talk.url}
+              className={styles.link}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label={t('talks.urlLinkLabel', {
+                label: t(`talks.urlLabel.${talk.type}`),
+                title: talk.title,
+              })}
+            >
+              {t(`talks.urlLabel.${talk.type}`)} <span aria-hidden="true">↗</span>
+            </a>
+          )}
+        </div>
+
+        {talk.slides && localSlides && openSlides === talk.id && (
+          <div id={viewerId}>
+            <SlideViewer src={withBasePath(talk.slides)} title={talk.title} />
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <section
+      id="talks"
+      className={styles.talks}
+      aria-labelledby="talks-heading"
+    >
+      <div className={styles.container}>
+        {/* Section Header */}
+        <header className={styles.header}>
+          <Reveal as="h2" id="talks-heading" className={styles.title}>
+            {t('talks.title')}
+          </Reveal>
+          <Reveal as="p" className={styles.subtitle}>
+            {t('talks.subtitle')}
+          </Reveal>
+        </header>
+
+        {/* Type Filter */}
+        <Reveal
+          className={styles.filters}
+          role="group"
+          aria-label={t('talks.filterGroup')}
+        >
+          {filters.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={`${styles.filterButton} ${filter === option.value ? styles.filterActive : ''}`}
+              aria-pressed={filter === option.value}
+              onClick={() => setFilter(option.value)}
+            >
+              {t(`talks.filter.${option.value}`)}
+              <span className={styles.count}>{option.count}</span>
+            </button>
+          ))}
+        </Reveal>
+
+        {/* Year Groups */}
+        {groups.map((group) => (
+          <div key={group.year} className={styles.group}>
+            <h3 className={styles.year}>{group.year}</h3>
+            <ul className={styles.list}>
+              {group.talks.map((talk) => (
+                <Reveal as="li" key={talk.id} className={styles.card}>
+                  <div className={styles.cardHeader}>
+                    <span className={styles.typeBadge} data-accent={TYPE_ACCENTS[talk.type]}>
+                      {t(`talks.badge.${talk.type}`)}
+                    </span>
+                    <time dateTime={talk.date} className={styles.date}>
+                      {formatDate(talk.date)}
+                    </time>
+                  </div>
+
+                  <h4 className={styles.talkTitle}>{talk.title}</h4>
+                  <p className={styles.event}>
+                    {talk.event}
+                    <span aria-hidden="true"> · </span>
+                    {talk.location}
+                  </p>
+                  <p className={styles.abstract}>{talk.abstract}</p>
+
+                  {renderLinks(talk)}
+                </Reveal>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default Talks;
@@ -9,9 +9,26 @@
 
 export { Header } from './Header';
 export { Hero } from './Hero';
+export { Experience } from './Experience';
 export { Skills } from './Skills';
+export { Certifications } from './Certifications';
 export { Projects } from './Projects';
+export { ProjectDetail } from './ProjectDetail';
+export { Research } from './Research';
+export { Talks } from './Talks';
+export { SlideViewer } from './SlideViewer';
+export { PostList } from './PostList';
+export { BlogPost } from './BlogPost';
+export { Resume } from './Resume';
+export { SecurityPolicy } from './SecurityPolicy';
 export { Contact } from './Contact';
 export { Footer } from './Footer';
 export { AnimatedBubbles } from './AnimatedBubbles';
 export { ThemeToggle } from './ThemeToggle';
+export { ReadingProgress } from './ReadingProgress';
+export { CommandPalette } from './CommandPalette';
+export { Reveal } from './Reveal';
+export { LocaleSwitcher } from './LocaleSwitcher';
+export { LocaleRedirect } from './LocaleRedirect';
+export { I18nProvider } from './I18nProvider';
+export { JsonLd } from './JsonLd';
@@ -0,0 +1,79 @@
+/**
+ * useFocusTrap Hook
+ *
+ * Keeps keyboard focus inside a modal while it is open: Tab and Shift+Tab
+ * wrap around its focusable elements, focus moves in when it opens (to
+ * the element with `data-autofocus`, or the first focusable one) and goes
+ * back to where it was when it closes. Page scrolling is locked meanwhile.
+ *
+ * Usage:
+ * const ref = useFocusTrap<HTMLDivElement>(isOpen);
+ * <div ref={ref} role="dialog" aria-modal="true">...</div>
+ */
+
+import { useEffect, useRef, type RefObject } from 'react';
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+function getFocusable(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (element) => element.getClientRects().length > 0
+  );
+}
+
+export function useFocusTrap<T extends HTMLElement>(active: boolean): RefObject<T | null> {
+  const ref = useRef<T>(null);
+
+  useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return;
+
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const initial = container.querySelector<HTMLElement>('[data-autofocus]') ?? getFocusable(container)[0];
+    (initial ?? container).focus();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Tab') return;
+
+      const focusable = getFocusable(container);
+      if (focusable.length === 0) {
+        event.preventDefault();
+        return;
+      }
+
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const current = document.activeElement;
+
+      if (event.shiftKey && (current === first || !container.contains(current))) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && (current === last || !container.contains(current))) {
+        event.preventDefault();
+        first.focus();
+      }
+    };
+
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = overflow;
+      // Without scrolling, so a scroll started by the modal is not undone
+      previous?.focus({ preventScroll: true });
+    };
+  }, [active]);
+
+  return ref;
+}
+
+export default useFocusTrap;
@@ -0,0 +1,23 @@
+/**
+ * useI18n Hook
+ *
+ * Translator for the current page's locale: messages, date and number
+ * formatting, and localized paths.
+ *
+ * Usage:
+ * const { t, formatDate, localizePath } = useI18n();
+ */
+
+import { useContext } from 'react';
+import { I18nContext } from '@/components/I18nProvider';
+import type { Translator } from '@/lib/i18n';
+
+export function useI18n(): Translator {
+  const translator = useContext(I18nContext);
+  if (!translator) {
+    throw new Error('useI18n() must be used inside <I18nProvider> (app/[locale]/layout.tsx)');
+  }
+  return translator;
+}
+
+export default useI18n;
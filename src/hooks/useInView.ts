@@ -0,0 +1,47 @@
+/**
+ * useInView Hook
+ *
+ * Whether an element has scrolled into view, from the shared observer in
+ * lib/motion. `order` is the element's position among those that came
+ * into view in the same batch, for staggering.
+ *
+ * When reveal animations are off (reduced motion, no IntersectionObserver)
+ * the element counts as in view as soon as it mounts. During prerendering
+ * and hydration `inView` is false; the CSS in <Reveal> only hides content
+ * when the pre-paint script has enabled reveal, so that is never visible.
+ *
+ * Usage:
+ * const { ref, inView } = useInView<HTMLDivElement>({ once: false });
+ */
+
+import { useCallback, useState, type RefCallback } from 'react';
+import { observeInView, unobserveInView } from '@/lib/motion';
+
+interface UseInViewOptions {
+  /** Stay in view after the first time (default) or track leaving too */
+  once?: boolean;
+}
+
+interface UseInViewResult<T extends Element> {
+  ref: RefCallback<T>;
+  inView: boolean;
+  order: number;
+}
+
+export function useInView<T extends Element>({ once = true }: UseInViewOptions = {}): UseInViewResult<T> {
+  const [state, setState] = useState({ inView: false, order: 0 });
+
+  const ref = useCallback<RefCallback<T>>(
+    (element) => {
+      if (!element) return;
+
+      observeInView(element, (inView, order) => setState({ inView, order }), once);
+      return () => unobserveInView(element);
+    },
+    [once]
+  );
+
+  return { ref, ...state };
+}
+
+export default useInView;
@@ -0,0 +1,76 @@
+/**
+ * useSectionNavigation Hook
+ *
+ * Scroll spy for the page's sections (see lib/navigation):
+ * - returns the id of the section being read, for aria-current
+ * - replaces the URL hash with it once scrolling settles
+ * - on load and on back/forward, scrolls the hash's section to just
+ *   below the fixed header (the browser's own jump would hide it)
+ *
+ * Used once per page, by the Header. On pages without sections it
+ * returns undefined and leaves the hash alone.
+ *
+ * Usage:
+ * const activeSection = useSectionNavigation();
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  getActiveSection,
+  getSectionId,
+  getSections,
+  scrollToSection,
+  syncHashToSection,
+} from '@/lib/navigation';
+
+// Scrolling counts as settled after this long without a scroll event
+const SETTLE_DELAY_MS = 150;
+
+export function useSectionNavigation(): string | undefined {
+  const [activeSection, setActiveSection] = useState<string>();
+
+  useEffect(() => {
+    const sections = getSections();
+    if (sections.length === 0) return;
+
+    let frame = 0;
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const update = () => {
+      frame = 0;
+      setActiveSection(getActiveSection(sections));
+    };
+
+    const handleScroll = () => {
+      if (!frame) frame = window.requestAnimationFrame(update);
+
+      clearTimeout(settleTimer);
+      settleTimer = setTimeout(() => syncHashToSection(getActiveSection(sections)), SETTLE_DELAY_MS);
+    };
+
+    const restoreHash = () => {
+      const id = getSectionId(window.location.hash);
+      if (id) scrollToSection(id, { behavior: 'instant', hash: 'none' });
+    };
+
+    // After hydration the layout is final, so the offset is correct
+    restoreHash();
+    update();
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll, { passive: true });
+    window.addEventListener('popstate', restoreHash);
+
+    return () => {
+      window.cancelAnimationFrame(frame);
+      clearTimeout(settleTimer);
+      window.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+      window.removeEventListener('popstate', restoreHash);
+    };
+  }, []);
+
+  return activeSection;
+}
+
+export default useSectionNavigation;
@@ -0,0 +1,50 @@
+/**
+ * useTheme Hook
+ *
+ * The visitor's theme preference and the theme actually shown, kept in
+ * sync with the theme toggle, other open tabs and the OS setting.
+ *
+ * The pre-hydration script in layout.tsx has already applied the theme to
+ * <html>, so this hook only reads it back. During prerendering and
+ * hydration `theme` is undefined and `preference` is 'system'; both update
+ * right after hydration.
+ *
+ * Usage:
+ * const { theme, preference, setPreference } = useTheme();
+ */
+
+import { useSyncExternalStore } from 'react';
+import {
+  isThemePreference,
+  setThemePreference,
+  subscribeToTheme,
+  type Theme,
+  type ThemePreference,
+} from '@/lib/theme';
+
+interface UseThemeResult {
+  /** Active theme, undefined until hydrated */
+  theme: Theme | undefined;
+  /** What the visitor chose */
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+function getPreference(): ThemePreference {
+  const preference = document.documentElement.getAttribute('data-theme-preference');
+  return isThemePreference(preference) ? preference : 'system';
+}
+
+function getTheme(): Theme | undefined {
+  const theme = document.documentElement.getAttribute('data-theme');
+  return theme === 'light' || theme === 'dark' ? theme : undefined;
+}
+
+export function useTheme(): UseThemeResult {
+  const preference = useSyncExternalStore(subscribeToTheme, getPreference, () => 'system' as const);
+  const theme = useSyncExternalStore(subscribeToTheme, getTheme, () => undefined);
+
+  return { theme, preference, setPreference: setThemePreference };
+}
+
+export default useTheme;
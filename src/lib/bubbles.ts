@@ -0,0 +1,111 @@
+/**
+ * Background Bubbles
+ *
+ * Layout and motion for AnimatedBubbles, kept free of the DOM so the
+ * same seed always gives the same bubbles (on the server, in every tab,
+ * on every visit).
+ *
+ * A bubble is placed by fractions of the viewport and floats on a loop
+ * of `period` seconds; getFloatOffset() gives its offset at any time, so
+ * pausing simply stops the clock.
+ */
+
+export const DEFAULT_BUBBLE_SEED = 0x1f0a26;
+
+export const MIN_BUBBLES = 6;
+export const MAX_BUBBLES = 24;
+
+// One bubble per this many square pixels of viewport
+const AREA_PER_BUBBLE = 90_000;
+
+/** Pointer influence radius and strongest push (px) */
+export const REPEL_RADIUS = 150;
+const REPEL_STRENGTH = 40;
+
+export interface Bubble {
+  /** Radius (px) */
+  radius: number;
+  /** Centre as a fraction of the viewport width/height */
+  x: number;
+  y: number;
+  /** Length of one float loop (s) */
+  period: number;
+  /** Starting point in the loop, 0 to 1 */
+  phase: number;
+}
+
+export interface Offset {
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * The first `count` bubbles for a seed. A larger count keeps the same
+ * leading bubbles, so resizing adds or removes bubbles at the end rather
+ * than reshuffling them all.
+ */
+export function generateBubbles(count: number, seed = DEFAULT_BUBBLE_SEED): Bubble[] {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => ({
+    radius: 15 + random() * 45,
+    x: random(),
+    y: random(),
+    period: 5 + random() * 3,
+    phase: random(),
+  }));
+}
+
+/**
+ * Bubble count for a viewport, fewer on devices reporting little memory
+ * (navigator.deviceMemory, in GB, where supported)
+ */
+export function getBubbleCount(width: number, height: number, deviceMemory?: number): number {
+  let count = (width * height) / AREA_PER_BUBBLE;
+
+  if (deviceMemory !== undefined) {
+    if (deviceMemory <= 2) count *= 0.5;
+    else if (deviceMemory <= 4) count *= 0.75;
+  }
+
+  return Math.round(Math.min(MAX_BUBBLES, Math.max(MIN_BUBBLES, count)));
+}
+
+/**
+ * Float offset at `time` seconds: a gentle rise with a little sideways
+ * sway, back to the start at the end of each loop
+ */
+export function getFloatOffset(bubble: Bubble, time: number): Offset {
+  const angle = 2 * Math.PI * (time / bubble.period + bubble.phase);
+  return {
+    dx: 5 * Math.sin(angle),
+    dy: -12.5 * (1 - Math.cos(angle)),
+  };
+}
+
+/**
+ * Push away from the pointer for a bubble centred at (x, y), strongest
+ * close to the pointer and fading to nothing at REPEL_RADIUS
+ */
+export function getRepelOffset(x: number, y: number, pointerX: number, pointerY: number): Offset {
+  const dx = x - pointerX;
+  const dy = y - pointerY;
+  const distance = Math.hypot(dx, dy);
+  if (distance >= REPEL_RADIUS || distance === 0) return { dx: 0, dy: 0 };
+
+  const push = REPEL_STRENGTH * (1 - distance / REPEL_RADIUS) ** 2;
+  return { dx: (dx / distance) * push, dy: (dy / distance) * push };
+}
@@ -0,0 +1,64 @@
+/**
+ * Certification Helpers
+ *
+ * Classifies certifications as active, expiring ("renews soon") or
+ * expired relative to an `asOf` date. Like the experience helpers, the
+ * date is passed in so the prerendered HTML and client hydration agree;
+ * the home page uses the build date.
+ */
+
+import type { Certification } from '@/lib/content';
+
+export type CertificationStatus = 'active' | 'expiring' | 'expired';
+
+/**
+ * Certifications expiring within this many days are flagged
+ * "renews soon" on the site and reported during the build
+ */
+export const RENEWAL_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days from `asOf` until the certification expires (negative once
+ * expired), or undefined when it never expires
+ */
+export function getDaysUntilExpiry(cert: Certification, asOf: string): number | undefined {
+  if (!cert.expires) return undefined;
+  return Math.round((Date.parse(cert.expires) - Date.parse(asOf)) / DAY_MS);
+}
+
+export function getCertificationStatus(cert: Certification, asOf: string): CertificationStatus {
+  const days = getDaysUntilExpiry(cert, asOf);
+
+  if (days === undefined || days > RENEWAL_WINDOW_DAYS) return 'active';
+  return days < 0 ? 'expired' : 'expiring';
+}
+
+/**
+ * Splits certifications into current (active or expiring) and expired,
+ * preserving order
+ */
+export function groupCertifications(
+  certs: Certification[],
+  asOf: string
+): { current: Certification[]; expired: Certification[] } {
+  const expired = certs.filter((cert) => getCertificationStatus(cert, asOf) === 'expired');
+  const current = certs.filter((cert) => !expired.includes(cert));
+
+  return { current, expired };
+}
+
+/**
+ * Logs a build warning for every certification inside the renewal window
+ */
+export function warnExpiringCertifications(certs: Certification[], asOf: string): void {
+  for (const cert of certs) {
+    if (getCertificationStatus(cert, asOf) === 'expiring') {
+      const days = getDaysUntilExpiry(cert, asOf);
+      console.warn(
+        `Warning: certification "${cert.name}" (content/certifications.json) expires on ${cert.expires}, in ${days} day${days === 1 ? '' : 's'}.`
+      );
+    }
+  }
+}
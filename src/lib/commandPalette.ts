@@ -0,0 +1,132 @@
+/**
+ * Command Palette
+ *
+ * Matching, recent items and keybindings for <CommandPalette>. The
+ * commands themselves (sections, projects, actions) are built by the
+ * component, which knows the locale, router and theme.
+ *
+ * Matching is fuzzy: the query's characters must appear in order, not
+ * necessarily next to each other ("ghub" finds "Open GitHub"). Runs of
+ * consecutive characters and matches at the start of a word rank higher.
+ */
+
+import type { MessageKey } from '@/lib/i18n';
+
+/** Most recent commands remembered, newest first */
+export const MAX_RECENT_COMMANDS = 5;
+
+export const RECENT_STORAGE_KEY = 'command-palette-recent';
+
+export interface FuzzyMatch {
+  score: number;
+  /** Positions in the text that matched, for highlighting */
+  indices: number[];
+}
+
+/**
+ * Scores `text` against `query`, or returns undefined when the query's
+ * characters do not all appear in order. Case-insensitive; spaces in the
+ * query are ignored.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | undefined {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return undefined;
+
+    const previous = indices[indices.length - 1];
+    if (previous !== undefined && index === previous + 1) {
+      score += 5;
+    } else if (index === 0 || /[\s\-_/.]/.test(haystack[index - 1])) {
+      score += 3;
+    } else {
+      score += 1;
+    }
+    // Characters skipped over cost a little, so tighter matches win
+    if (previous !== undefined) score -= Math.min(index - previous - 1, 3) * 0.5;
+
+    indices.push(index);
+    from = index + 1;
+  }
+
+  // Prefer shorter texts among equally good matches
+  return { score: score - text.length * 0.01, indices };
+}
+
+/**
+ * Recently run command ids, newest first; empty when storage is blocked
+ */
+export function getRecentCommands(): string[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(RECENT_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((id) => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Moves `id` to the front of the recent commands and returns the new list
+ */
+export function addRecentCommand(id: string): string[] {
+  const recent = [id, ...getRecentCommands().filter((item) => item !== id)].slice(
+    0,
+    MAX_RECENT_COMMANDS
+  );
+  try {
+    window.localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(recent));
+  } catch {
+    // Storage blocked: recents last until the page is reloaded
+  }
+  return recent;
+}
+
+/**
+ * Whether the platform labels its command key ⌘ rather than Ctrl
+ */
+export function isApplePlatform(): boolean {
+  return /mac|iphone|ipad|ipod/i.test(navigator.platform || navigator.userAgent);
+}
+
+/**
+ * Ctrl+K, or ⌘+K on Apple platforms
+ */
+export function isPaletteShortcut(event: KeyboardEvent): boolean {
+  return event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey) && !event.altKey && !event.shiftKey;
+}
+
+/**
+ * Whether a key press is going into a text field, where `?` is typing
+ * rather than a shortcut
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['button', 'checkbox', 'radio', 'submit', 'reset'].includes(target.type);
+}
+
+/** "Mod" is shown as ⌘ or Ctrl for the platform */
+export interface Keybinding {
+  keys: string[];
+  description: MessageKey;
+}
+
+/**
+ * Every keybinding, as listed in the `?` overlay
+ */
+export const KEYBINDINGS: Keybinding[] = [
+  { keys: ['Mod', 'K'], description: 'commandPalette.keys.open' },
+  { keys: ['?'], description: 'commandPalette.keys.shortcuts' },
+  { keys: ['↑', '↓'], description: 'commandPalette.keys.move' },
+  { keys: ['Enter'], description: 'commandPalette.keys.run' },
+  { keys: ['Esc'], description: 'commandPalette.keys.close' },
+  { keys: ['←', '→'], description: 'commandPalette.keys.slides' },
+];
@@ -0,0 +1,204 @@
+/**
+ * Contact Delivery
+ *
+ * Retry with exponential backoff around a transport, plus an offline
+ * outbox in localStorage that is resent when the browser comes back
+ * online or the page is next opened.
+ *
+ * Backoff: attempt n (from 0) waits `baseDelayMs * 2^n`, plus up to 50%
+ * jitter, capped at `maxDelayMs`; a Retry-After header takes precedence.
+ * Only retryable failures are retried, and only queueable transports
+ * (HTTP, mock) use the outbox.
+ *
+ * Flushes can start from several places at once (page load, the `online`
+ * event, other tabs), so a tab only flushes while it holds the outbox's
+ * Web Lock and overlapping calls in one tab share a single run.
+ */
+
+import { ContactDeliveryError } from './transports';
+import type { ContactSubmission, ContactTransport, DeliveryOutcome } from './types';
+
+export interface RetryOptions {
+  /** Total attempts, including the first */
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Called before each retry with the upcoming attempt number (from 2) */
+  onRetry?: (attempt: number, error: ContactDeliveryError) => void;
+  signal?: AbortSignal;
+}
+
+const OUTBOX_KEY = 'contact-outbox';
+
+// Queued messages older than this are dropped rather than sent late
+const OUTBOX_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface OutboxEntry {
+  id: string;
+  queuedAt: number;
+  submission: ContactSubmission;
+}
+
+function toDeliveryError(error: unknown): ContactDeliveryError {
+  return error instanceof ContactDeliveryError
+    ? error
+    : new ContactDeliveryError('network', { cause: error });
+}
+
+export function getBackoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = options.baseDelayMs * 2 ** attempt;
+  const jitter = exponential * 0.5 * Math.random();
+  return Math.min(exponential + jitter, options.maxDelayMs);
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Sends a message, retrying retryable failures. Offline failures are not
+ * retried here since waiting will not help; the caller should queue them.
+ */
+export async function sendWithRetry(
+  transport: ContactTransport,
+  submission: ContactSubmission,
+  options: RetryOptions
+): Promise<DeliveryOutcome> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await transport.send(submission, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+
+      const failure = toDeliveryError(error);
+      const lastAttempt = attempt + 1 >= options.attempts;
+      if (!failure.retryable || failure.reason === 'offline' || lastAttempt) {
+        throw failure;
+      }
+
+      const delay =
+        failure.retryAfter !== undefined
+          ? Math.min(failure.retryAfter * 1000, options.maxDelayMs)
+          : getBackoffDelay(attempt, options);
+      options.onRetry?.(attempt + 2, failure);
+      await wait(delay, options.signal);
+    }
+  }
+}
+
+/* Offline outbox */
+
+function readOutbox(): OutboxEntry[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(OUTBOX_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((entry) => entry?.submission) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOutbox(entries: OutboxEntry[]): void {
+  if (entries.length === 0) {
+    window.localStorage.removeItem(OUTBOX_KEY);
+  } else {
+    window.localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  }
+}
+
+/**
+ * Saves a message for later delivery. Returns false when storage is
+ * unavailable (private browsing, quota), so the caller can report it.
+ */
+export function queueMessage(submission: ContactSubmission): boolean {
+  try {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    writeOutbox([...readOutbox(), { id, queuedAt: Date.now(), submission }]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getQueuedCount(): number {
+  return typeof window === 'undefined' ? 0 : readOutbox().length;
+}
+
+/**
+ * Sends queued entries oldest first, removing each once it is delivered
+ * or rejected; see flushOutbox
+ */
+async function sendQueued(
+  transport: ContactTransport,
+  options: RetryOptions,
+  prepare: (submission: ContactSubmission) => Promise<ContactSubmission>
+): Promise<number> {
+  const stored = readOutbox();
+  const seen = new Set(stored.map((entry) => entry.id));
+  const pending = stored.filter((entry) => Date.now() - entry.queuedAt < OUTBOX_MAX_AGE_MS);
+  // Keep anything queued by another tab or submission while we were sending
+  const save = () =>
+    writeOutbox([...pending, ...readOutbox().filter((entry) => !seen.has(entry.id))]);
+  let sent = 0;
+
+  while (pending.length > 0) {
+    try {
+      await sendWithRetry(transport, await prepare(pending[0].submission), options);
+      sent++;
+    } catch (error) {
+      if (toDeliveryError(error).retryable) break;
+    }
+    pending.shift();
+    save();
+  }
+
+  save();
+  return sent;
+}
+
+/**
+ * Runs `task` holding a Web Lock on the outbox so only one tab flushes at
+ * a time; resolves to 0 without running it while another tab holds the
+ * lock. The Locks API needs a secure context; without it tabs are not
+ * coordinated.
+ */
+async function withOutboxLock(task: () => Promise<number>): Promise<number> {
+  if (!navigator.locks) return task();
+  return navigator.locks.request(OUTBOX_KEY, { ifAvailable: true }, (lock) => (lock ? task() : 0));
+}
+
+// The flush in progress in this tab, shared by overlapping calls
+let flushing: Promise<number> | undefined;
+
+/**
+ * Resends queued messages in order. Stops at the first retryable failure
+ * (still offline, endpoint down) and keeps the rest; drops messages the
+ * endpoint rejects or that have expired. Returns how many were sent.
+ *
+ * Calls made while a flush is running in this tab get that flush's
+ * result instead of starting another.
+ *
+ * `prepare` runs before each send, e.g. to replace a proof-of-work stamp
+ * that has gone stale while the message waited.
+ */
+export function flushOutbox(
+  transport: ContactTransport,
+  options: RetryOptions,
+  prepare: (submission: ContactSubmission) => Promise<ContactSubmission> = async (s) => s
+): Promise<number> {
+  if (!transport.queueable) return Promise.resolve(0);
+
+  flushing ??= withOutboxLock(() => sendQueued(transport, options, prepare)).finally(() => {
+    flushing = undefined;
+  });
+  return flushing;
+}
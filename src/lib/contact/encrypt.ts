@@ -0,0 +1,19 @@
+/**
+ * Message Encryption
+ *
+ * Encrypts contact messages in the browser to the site owner's public key
+ * (see src/lib/content/pgp.ts), so vulnerability details only leave the
+ * page as OpenPGP ciphertext. openpgp.js is loaded on first use.
+ */
+
+/**
+ * ASCII-armored OpenPGP message that only the key owner can read
+ */
+export async function encryptMessage(text: string, armoredKey: string): Promise<string> {
+  const { createMessage, encrypt, readKey } = await import('openpgp');
+
+  const encryptionKeys = await readKey({ armoredKey });
+  const message = await createMessage({ text });
+
+  return encrypt({ message, encryptionKeys, format: 'armored' });
+}
@@ -0,0 +1,148 @@
+/**
+ * Hashcash Stamps
+ *
+ * Proof-of-work for contact form submissions, shared by the browser (which
+ * mints stamps in a Web Worker, see proofOfWork.ts) and the receiving side
+ * (which checks them, see verify.ts). Uses only WebCrypto, so it runs in
+ * browsers, workers, Node 18+ and edge runtimes.
+ *
+ * Stamps follow the hashcash v1 layout with SHA-256 instead of SHA-1:
+ *
+ *   1:<bits>:<YYMMDDhhmmss UTC>:<resource>:<ext>:<rand>:<counter>
+ *
+ * - resource: the sender's email address, lower-cased and
+ *   percent-encoded (a quoted local part may contain ':')
+ * - ext: first 128 bits (hex) of SHA-256 over name, email and message,
+ *   so a stamp cannot be reused for different content
+ *
+ * A stamp is valid when SHA-256 of the whole string starts with at least
+ * `bits` zero bits. Each extra bit doubles the expected work.
+ */
+
+import type { ContactMessage } from './types';
+
+export interface HashcashChallenge {
+  bits: number;
+  /** YYMMDDhhmmss, UTC */
+  date: string;
+  resource: string;
+  ext: string;
+  rand: string;
+}
+
+export interface HashcashStamp extends HashcashChallenge {
+  version: '1';
+  counter: string;
+}
+
+const encoder = new TextEncoder();
+
+async function sha256(text: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+export function formatStampDate(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(2, 14);
+}
+
+/**
+ * Parses a YYMMDDhhmmss stamp date; NaN when malformed
+ */
+export function parseStampDate(value: string): number {
+  const match = /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) return NaN;
+  const [, yy, mm, dd, hh, mi, ss] = match.map(Number);
+  return Date.UTC(2000 + yy, mm - 1, dd, hh, mi, ss);
+}
+
+export function normaliseEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Binds a stamp to the message content (see module docs)
+ */
+export async function digestMessage(message: ContactMessage): Promise<string> {
+  const canonical = JSON.stringify([message.name, normaliseEmail(message.email), message.message]);
+  return toHex(await sha256(canonical)).slice(0, 32);
+}
+
+export async function createChallenge(
+  message: ContactMessage,
+  bits: number,
+  now = new Date()
+): Promise<HashcashChallenge> {
+  return {
+    bits,
+    date: formatStampDate(now),
+    resource: normaliseEmail(message.email),
+    ext: await digestMessage(message),
+    rand: toHex(crypto.getRandomValues(new Uint8Array(8))),
+  };
+}
+
+function stampPrefix(challenge: HashcashChallenge): string {
+  const { bits, date, resource, ext, rand } = challenge;
+  return ['1', bits, date, encodeURIComponent(resource), ext, rand, ''].join(':');
+}
+
+/**
+ * Searches for a counter that satisfies the challenge. Calls `onProgress`
+ * every 4096 attempts; returning false from it stops the search.
+ */
+export async function mintStamp(
+  challenge: HashcashChallenge,
+  onProgress?: (attempts: number) => boolean | void
+): Promise<string | null> {
+  const prefix = stampPrefix(challenge);
+
+  for (let counter = 0; ; counter++) {
+    const stamp = prefix + counter.toString(36);
+    if (leadingZeroBits(await sha256(stamp)) >= challenge.bits) {
+      return stamp;
+    }
+    if (counter % 4096 === 4095 && onProgress?.(counter + 1) === false) {
+      return null;
+    }
+  }
+}
+
+export function parseStamp(stamp: string): HashcashStamp | null {
+  const parts = stamp.split(':');
+  if (parts.length !== 7) return null;
+
+  const [version, bits, date, encodedResource, ext, rand, counter] = parts;
+  if (version !== '1' || !/^\d{1,3}$/.test(bits) || !counter) return null;
+
+  let resource;
+  try {
+    resource = decodeURIComponent(encodedResource);
+  } catch {
+    return null;
+  }
+
+  return { version, bits: Number(bits), date, resource, ext, rand, counter };
+}
+
+/**
+ * Zero bits actually achieved by a stamp (may exceed the claimed bits)
+ */
+export async function stampStrength(stamp: string): Promise<number> {
+  return leadingZeroBits(await sha256(stamp));
+}
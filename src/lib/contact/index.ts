@@ -0,0 +1,89 @@
+/**
+ * Contact Delivery
+ *
+ * Picks the contact form transport from `siteConfig.contact` (set through
+ * the NEXT_PUBLIC_CONTACT_* environment variables, see site.ts) and turns
+ * delivery failures into text the visitor can act on.
+ *
+ * Usage:
+ * import { getContactTransport, sendWithRetry } from '@/lib/contact';
+ */
+
+import type { Translator } from '@/lib/i18n';
+import { siteConfig } from '@/lib/site';
+import { ContactDeliveryError, createHttpTransport, createMailtoTransport } from './transports';
+import { CONTACT_TRANSPORTS, type ContactTransport, type ContactTransportName } from './types';
+
+export * from './types';
+export {
+  ContactDeliveryError,
+  buildMailtoUrl,
+  createHttpTransport,
+  createMailtoTransport,
+} from './transports';
+export { flushOutbox, getBackoffDelay, getQueuedCount, queueMessage, sendWithRetry } from './delivery';
+export type { RetryOptions } from './delivery';
+export { encryptMessage } from './encrypt';
+export { solveProofOfWork } from './proofOfWork';
+export { verifySubmission } from './verify';
+export type { VerifyOptions, VerifyResult } from './verify';
+
+function resolveTransportName(): ContactTransportName {
+  const { transport, endpoint } = siteConfig.contact;
+  if (!transport) return endpoint ? 'http' : 'mailto';
+
+  if (!(CONTACT_TRANSPORTS as readonly string[]).includes(transport)) {
+    throw new Error(
+      `NEXT_PUBLIC_CONTACT_TRANSPORT must be one of ${CONTACT_TRANSPORTS.join(', ')} (got "${transport}")`
+    );
+  }
+  if (transport === 'http' && !endpoint) {
+    throw new Error('NEXT_PUBLIC_CONTACT_TRANSPORT is "http" but NEXT_PUBLIC_CONTACT_ENDPOINT is not set');
+  }
+  return transport as ContactTransportName;
+}
+
+/**
+ * The configured transport. Misconfiguration throws while the page is
+ * prerendered, so it fails `next build` instead of losing messages.
+ */
+export function getContactTransport(): ContactTransport {
+  const { endpoint, mockEndpoint, timeoutMs } = siteConfig.contact;
+
+  switch (resolveTransportName()) {
+    case 'http':
+      return createHttpTransport({ endpoint, timeoutMs });
+    case 'mock':
+      return createHttpTransport({ endpoint: endpoint || mockEndpoint, timeoutMs, name: 'mock' });
+    case 'mailto':
+      return createMailtoTransport({ to: siteConfig.author.email });
+  }
+}
+
+/**
+ * Visitor-facing explanation of a failed send, in the translator's locale
+ */
+export function describeDeliveryError(error: unknown, t: Translator['t']): string {
+  if (!(error instanceof ContactDeliveryError)) {
+    return t('contact.delivery.unexpected');
+  }
+
+  switch (error.reason) {
+    case 'offline':
+      return t('contact.delivery.offline');
+    case 'network':
+      return t('contact.delivery.network');
+    case 'timeout':
+      return t('contact.delivery.timeout');
+    case 'rate-limited':
+      return t('contact.delivery.rateLimited');
+    case 'server':
+      return t('contact.delivery.server');
+    case 'rejected':
+      return error.detail
+        ? t('contact.delivery.rejectedDetail', { detail: error.detail })
+        : t('contact.delivery.rejected');
+    case 'unavailable':
+      return t('contact.delivery.unavailable');
+  }
+}
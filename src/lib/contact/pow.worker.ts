@@ -0,0 +1,24 @@
+/**
+ * Proof-of-Work Worker
+ *
+ * Mints a hashcash stamp off the main thread so the form stays responsive.
+ * Receives a HashcashChallenge and posts back `{ stamp }`, or
+ * `{ error }` if WebCrypto is unavailable.
+ */
+
+import { mintStamp, type HashcashChallenge } from './hashcash';
+
+// The project compiles against the DOM lib, which types `self` as Window
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<HashcashChallenge>) => void) | null;
+  postMessage(message: { stamp: string } | { error: string }): void;
+};
+
+worker.onmessage = async (event) => {
+  try {
+    const stamp = await mintStamp(event.data);
+    if (stamp) worker.postMessage({ stamp });
+  } catch (error) {
+    worker.postMessage({ error: (error as Error).message });
+  }
+};
@@ -0,0 +1,63 @@
+/**
+ * Proof-of-Work (browser)
+ *
+ * Mints the hashcash stamp for a submission in a Web Worker. Falls back
+ * to the main thread where workers are unavailable; the search awaits
+ * WebCrypto between attempts, so the page still repaints.
+ */
+
+import { createChallenge, mintStamp } from './hashcash';
+import type { ContactMessage } from './types';
+
+function mintInWorker(
+  challenge: Awaited<ReturnType<typeof createChallenge>>,
+  signal?: AbortSignal
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./pow.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+
+    worker.onmessage = (event: MessageEvent<{ stamp?: string; error?: string }>) => {
+      finish();
+      if (event.data.stamp) {
+        resolve(event.data.stamp);
+      } else {
+        reject(new Error(event.data.error ?? 'Proof-of-work failed'));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Proof-of-work worker failed'));
+    };
+
+    signal?.addEventListener('abort', abort, { once: true });
+    worker.postMessage(challenge);
+  });
+}
+
+/**
+ * Stamp proving `bits` of work for this message
+ */
+export async function solveProofOfWork(
+  message: ContactMessage,
+  bits: number,
+  signal?: AbortSignal
+): Promise<string> {
+  const challenge = await createChallenge(message, bits);
+
+  if (typeof Worker !== 'undefined') {
+    return mintInWorker(challenge, signal);
+  }
+
+  const stamp = await mintStamp(challenge, () => !signal?.aborted);
+  if (!stamp) throw signal?.reason;
+  return stamp;
+}
@@ -0,0 +1,156 @@
+/**
+ * Contact Transports
+ *
+ * Adapters that deliver a contact form message:
+ * - HTTP: POSTs JSON to a form endpoint (Formspree, Getform, Basin, a
+ *   serverless function, ...). The endpoint must allow CORS from the site
+ *   and answer 2xx on success; 4xx bodies of the form
+ *   `{ "error": "..." }` or `{ "errors": [{ "message": "..." }] }` are
+ *   shown to the visitor.
+ * - mailto: opens the visitor's mail client with the message filled in.
+ *   Works without any backend, but delivery cannot be confirmed.
+ *
+ * The local mock server (`npm run contact:mock`) speaks the same protocol
+ * as the HTTP transport.
+ */
+
+import type { ContactMessage, ContactTransport, DeliveryFailure } from './types';
+
+/**
+ * Failure raised by a transport. `retryable` failures may succeed on a
+ * later attempt; the others need the visitor to change something.
+ */
+export class ContactDeliveryError extends Error {
+  readonly reason: DeliveryFailure;
+  /** Server-provided detail, e.g. a validation message */
+  readonly detail?: string;
+  /** Seconds to wait before retrying, from a Retry-After header */
+  readonly retryAfter?: number;
+
+  constructor(
+    reason: DeliveryFailure,
+    options: { detail?: string; retryAfter?: number; cause?: unknown } = {}
+  ) {
+    super(
+      options.detail
+        ? `Contact delivery failed (${reason}): ${options.detail}`
+        : `Contact delivery failed (${reason})`,
+      { cause: options.cause }
+    );
+    this.name = 'ContactDeliveryError';
+    this.reason = reason;
+    this.detail = options.detail;
+    this.retryAfter = options.retryAfter;
+  }
+
+  get retryable(): boolean {
+    return ['offline', 'network', 'timeout', 'rate-limited', 'server'].includes(this.reason);
+  }
+}
+
+/**
+ * Reads a human-readable error from a JSON error body, if there is one
+ */
+async function readErrorDetail(response: Response): Promise<string | undefined> {
+  try {
+    const body = (await response.json()) as {
+      error?: unknown;
+      message?: unknown;
+      errors?: Array<{ message?: unknown }>;
+    };
+    const detail =
+      body.errors?.map((error) => error.message).filter(Boolean).join(' ') ||
+      body.error ||
+      body.message;
+    return typeof detail === 'string' && detail ? detail : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+export function createHttpTransport(options: {
+  endpoint: string;
+  timeoutMs: number;
+  name?: 'http' | 'mock';
+}): ContactTransport {
+  const { endpoint, timeoutMs, name = 'http' } = options;
+
+  return {
+    name,
+    queueable: true,
+    async send(message, signal) {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        throw new ContactDeliveryError('offline');
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      const abort = () => controller.abort();
+      signal?.addEventListener('abort', abort);
+
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+          body: JSON.stringify(message),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new ContactDeliveryError(controller.signal.aborted ? 'timeout' : 'network', {
+          cause: error,
+        });
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+      }
+
+      if (response.ok) return 'sent';
+
+      const detail = await readErrorDetail(response);
+      if (response.status === 429) {
+        throw new ContactDeliveryError('rate-limited', {
+          detail,
+          retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+        });
+      }
+      if (response.status >= 500) {
+        throw new ContactDeliveryError('server', { detail: detail ?? `HTTP ${response.status}` });
+      }
+      throw new ContactDeliveryError('rejected', { detail: detail ?? `HTTP ${response.status}` });
+    },
+  };
+}
+
+/**
+ * mailto: URL with the message as the body; the reply-to address is
+ * included in the body because mail clients ignore a Reply-To parameter
+ */
+export function buildMailtoUrl(to: string, message: ContactMessage): string {
+  const subject = `Portfolio enquiry from ${message.name}`;
+  const body = `${message.message}\n\n— ${message.name} <${message.email}>`;
+  return `mailto:${to}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+}
+
+export function createMailtoTransport(options: { to: string }): ContactTransport {
+  return {
+    name: 'mailto',
+    queueable: false,
+    async send(message) {
+      if (typeof window === 'undefined') {
+        throw new ContactDeliveryError('unavailable', { detail: 'mailto needs a browser' });
+      }
+      window.location.href = buildMailtoUrl(options.to, message);
+      return 'handed-off';
+    },
+  };
+}
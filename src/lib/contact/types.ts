@@ -0,0 +1,81 @@
+/**
+ * Contact Delivery Types
+ *
+ * Shapes shared by the transports, the retry/outbox logic and the
+ * Contact form.
+ */
+
+// What the visitor typed into the form
+export interface ContactMessage {
+  name: string;
+  email: string;
+  message: string;
+}
+
+/**
+ * What is sent to the endpoint: the message plus spam signals for the
+ * receiving side to check (see verify.ts)
+ * - `_gotcha`: honeypot field, hidden from people, must be empty
+ *   (the name Formspree recognises)
+ * - `startedAt`: when the form was shown, epoch ms
+ * - `stamp`: hashcash proof-of-work stamp (see hashcash.ts)
+ */
+export interface ContactSubmission extends ContactMessage {
+  _gotcha: string;
+  startedAt: number;
+  stamp: string;
+}
+
+export const CONTACT_TRANSPORTS = ['http', 'mailto', 'mock'] as const;
+export type ContactTransportName = (typeof CONTACT_TRANSPORTS)[number];
+
+/**
+ * - `sent`: the endpoint accepted the message
+ * - `handed-off`: the message was passed to the visitor's mail client,
+ *   which has to send it; delivery cannot be confirmed
+ */
+export type DeliveryOutcome = 'sent' | 'handed-off';
+
+/**
+ * Delivers a message. Implementations throw ContactDeliveryError on
+ * failure so callers can decide whether to retry, queue or give up.
+ */
+export interface ContactTransport {
+  name: ContactTransportName;
+  /** Whether failed sends may be retried and kept in the offline outbox */
+  queueable: boolean;
+  send(submission: ContactSubmission, signal?: AbortSignal): Promise<DeliveryOutcome>;
+}
+
+/**
+ * Why a send failed:
+ * - `offline`: the browser reports no network connection
+ * - `network`: the request never reached the endpoint (DNS, CORS, reset)
+ * - `timeout`: no response within the configured time
+ * - `rate-limited`: the endpoint answered 429
+ * - `server`: the endpoint answered 5xx
+ * - `rejected`: the endpoint refused the message (4xx); retrying won't help
+ * - `unavailable`: no transport could run (e.g. mailto outside a browser)
+ */
+export type DeliveryFailure =
+  | 'offline'
+  | 'network'
+  | 'timeout'
+  | 'rate-limited'
+  | 'server'
+  | 'rejected'
+  | 'unavailable';
+
+/**
+ * Why the receiving side treated a submission as spam
+ */
+export type SpamCheckFailure =
+  | 'malformed'
+  | 'honeypot'
+  | 'too-fast'
+  | 'missing-stamp'
+  | 'invalid-stamp'
+  | 'insufficient-work'
+  | 'stale-stamp'
+  | 'stamp-mismatch'
+  | 'replayed-stamp';
@@ -0,0 +1,99 @@
+/**
+ * Submission Verifier
+ *
+ * Spam checks for the receiving side of the contact form: a serverless
+ * function, worker or small server in front of the mail relay. Needs
+ * only WebCrypto.
+ *
+ * Bots can post to the endpoint without running the page. The stamp
+ * checks are the ones they cannot skip: the work, the stamp's age and its
+ * binding to this sender and message. The honeypot and fill-time checks
+ * only read what the client reports (`_gotcha`, `startedAt`), so they
+ * stop naive form-fillers, not a bot written against this endpoint.
+ *
+ * Usage:
+ * const result = await verifySubmission(await request.json(), {
+ *   isReplay: (stamp) => kv.seen(stamp),
+ * });
+ * if (!result.ok) return new Response(null, { status: 422 });
+ *
+ * Checks, in order:
+ * - body has the ContactSubmission fields with the right types
+ * - honeypot (`_gotcha`) is empty
+ * - at least `minFillMs` between the reported `startedAt` and now
+ * - stamp parses, claims at least `bits`, and its hash really has that
+ *   many leading zero bits
+ * - stamp date is no older than `maxStampAgeMs` and not in the future
+ *   (beyond `clockSkewMs`)
+ * - stamp resource and ext match this sender and message
+ * - `isReplay` (optional) has not seen the stamp before
+ */
+
+import { siteConfig } from '@/lib/site';
+import { digestMessage, normaliseEmail, parseStamp, parseStampDate, stampStrength } from './hashcash';
+import type { ContactSubmission, SpamCheckFailure } from './types';
+
+export interface VerifyOptions {
+  bits?: number;
+  minFillMs?: number;
+  maxStampAgeMs?: number;
+  clockSkewMs?: number;
+  now?: number;
+  /** Return true if the stamp was used before; record it otherwise */
+  isReplay?: (stamp: string) => boolean | Promise<boolean>;
+}
+
+export type VerifyResult =
+  | { ok: true; submission: ContactSubmission }
+  | { ok: false; reason: SpamCheckFailure };
+
+function isSubmission(body: unknown): body is ContactSubmission {
+  if (typeof body !== 'object' || body === null) return false;
+  const value = body as Record<string, unknown>;
+  return (
+    typeof value.name === 'string' &&
+    typeof value.email === 'string' &&
+    typeof value.message === 'string' &&
+    (value._gotcha === undefined || typeof value._gotcha === 'string') &&
+    typeof value.startedAt === 'number' &&
+    (value.stamp === undefined || typeof value.stamp === 'string')
+  );
+}
+
+export async function verifySubmission(
+  body: unknown,
+  options: VerifyOptions = {}
+): Promise<VerifyResult> {
+  const {
+    bits = siteConfig.contact.spam.powBits,
+    minFillMs = siteConfig.contact.spam.minFillMs,
+    maxStampAgeMs = siteConfig.contact.spam.maxStampAgeMs,
+    clockSkewMs = 5 * 60 * 1000,
+    now = Date.now(),
+    isReplay,
+  } = options;
+  const fail = (reason: SpamCheckFailure): VerifyResult => ({ ok: false, reason });
+
+  if (!isSubmission(body)) return fail('malformed');
+  if (body._gotcha) return fail('honeypot');
+  if (now - body.startedAt < minFillMs) return fail('too-fast');
+  if (!body.stamp) return fail('missing-stamp');
+
+  const stamp = parseStamp(body.stamp);
+  if (!stamp) return fail('invalid-stamp');
+  if (stamp.bits < bits || (await stampStrength(body.stamp)) < stamp.bits) {
+    return fail('insufficient-work');
+  }
+
+  const minted = parseStampDate(stamp.date);
+  if (Number.isNaN(minted)) return fail('invalid-stamp');
+  if (now - minted > maxStampAgeMs || minted - now > clockSkewMs) return fail('stale-stamp');
+
+  if (stamp.resource !== normaliseEmail(body.email) || stamp.ext !== (await digestMessage(body))) {
+    return fail('stamp-mismatch');
+  }
+
+  if (isReplay && (await isReplay(body.stamp))) return fail('replayed-stamp');
+
+  return { ok: true, submission: body };
+}
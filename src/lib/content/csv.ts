@@ -0,0 +1,61 @@
+/**
+ * CSV Parser
+ *
+ * Minimal RFC 4180 parser for the bug bounty exports in content/research/:
+ * quoted fields, escaped quotes ("") and line breaks inside quotes.
+ * The first row is the header; each following row becomes an object
+ * keyed by lower-cased header names. Blank lines are skipped.
+ */
+
+function parseRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim().toLowerCase());
+
+  return rows.map((cells) =>
+    Object.fromEntries(keys.map((key, index) => [key, (cells[index] ?? '').trim()]))
+  );
+}
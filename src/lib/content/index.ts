@@ -0,0 +1,256 @@
+/**
+ * Content Loader
+ *
+ * Loads the JSON files in `content/` and validates every entry against
+ * its schema when the module is first evaluated. Because pages are
+ * prerendered during `next build`, an invalid edit fails the build with a
+ * ContentValidationError that names the file and field.
+ *
+ * List-backed home page sections are left out while their file is an
+ * empty array, and so are their header and footer links.
+ * `content/examples/` holds sample entries showing the format; nothing
+ * there is loaded.
+ *
+ * Usage:
+ * import { projects, skillCategories } from '@/lib/content';
+ */
+
+import projectsJson from '../../../content/projects.json';
+import experienceJson from '../../../content/experience.json';
+import certificationsJson from '../../../content/certifications.json';
+import talksJson from '../../../content/talks.json';
+import skillsJson from '../../../content/skills.json';
+import navigationJson from '../../../content/navigation.json';
+import socialJson from '../../../content/social.json';
+import enMessages from '../../../content/messages/en.json';
+import {
+  array,
+  boolean,
+  integer,
+  isoDate,
+  object,
+  oneOf,
+  optional,
+  parseContent,
+  slug,
+  string,
+  unique,
+  yearMonth,
+} from './schema';
+import {
+  ACCENT_COLORS,
+  SOCIAL_ICONS,
+  TALK_TYPES,
+  type Certification,
+  type Experience,
+  type NavigationContent,
+  type NavItem,
+  type NavLabel,
+  type Project,
+  type Skill,
+  type SkillCategory,
+  type SkillsContent,
+  type SocialLink,
+  type Talk,
+} from './types';
+
+export * from './types';
+export { ContentValidationError } from './schema';
+
+const projectSchema = object<Project>({
+  id: integer(),
+  slug: slug(),
+  date: optional(isoDate()),
+  updated: optional(isoDate()),
+  title: string(),
+  description: string(),
+  longDescription: string(),
+  writeup: optional(array(string(), { minLength: 1 })),
+  technologies: array(string(), { minLength: 1 }),
+  category: string(),
+  icon: string(),
+  github: optional(string()),
+  demo: optional(string()),
+  color: oneOf(ACCENT_COLORS),
+  featured: optional(boolean()),
+  draft: optional(boolean()),
+});
+
+const experienceSchema = object<Experience>({
+  id: slug(),
+  role: string(),
+  company: string(),
+  location: string(),
+  start: yearMonth(),
+  end: optional(yearMonth()),
+  summary: string(),
+  highlights: array(string(), { minLength: 1 }),
+  technologies: array(string()),
+});
+
+const certificationSchema = object<Certification>({
+  id: slug(),
+  name: string(),
+  issuer: string(),
+  credentialId: string(),
+  issued: isoDate(),
+  expires: optional(isoDate()),
+  verifyUrl: string(),
+  badge: string(),
+});
+
+const talkSchema = object<Talk>({
+  id: slug(),
+  title: string(),
+  type: oneOf(TALK_TYPES),
+  event: string(),
+  date: isoDate(),
+  location: string(),
+  abstract: string(),
+  slides: optional(string()),
+  video: optional(string()),
+  url: optional(string()),
+});
+
+const skillSchema = object<Skill>({
+  name: string(),
+  description: string(),
+  icon: string(),
+});
+
+const skillsSchema = object<SkillsContent>({
+  categories: unique(
+    array(
+      object<SkillCategory>({
+        title: string(),
+        icon: string(),
+        color: oneOf(ACCENT_COLORS),
+        skills: unique(array(skillSchema, { minLength: 1 }), 'name'),
+      }),
+      { minLength: 1 }
+    ),
+    'title'
+  ),
+  tools: array(string()),
+});
+
+const navItemSchema = object<NavItem>({
+  href: string(),
+  label: oneOf(Object.keys(enMessages.nav) as NavLabel[]),
+});
+
+const navigationSchema = object<NavigationContent>({
+  navItems: unique(array(navItemSchema), 'href'),
+  footerLinks: unique(array(navItemSchema), 'href'),
+});
+
+const socialLinkSchema = object<SocialLink>({
+  id: string(),
+  name: string(),
+  href: string(),
+  icon: oneOf(SOCIAL_ICONS),
+});
+
+const allProjects: Project[] = parseContent(
+  'content/projects.json',
+  unique(unique(array(projectSchema), 'id'), 'slug'),
+  projectsJson
+);
+
+/**
+ * Published projects. Entries marked `draft: true` are shown in
+ * `next dev` only and left out of production pages, feeds and the sitemap.
+ */
+export const projects: Project[] = allProjects.filter(
+  (project) => process.env.NODE_ENV !== 'production' || !project.draft
+);
+
+/**
+ * Finds a project by its URL slug
+ */
+export function getProject(projectSlug: string): Project | undefined {
+  return projects.find((project) => project.slug === projectSlug);
+}
+
+/**
+ * Returns the projects before and after `projectSlug` in display order,
+ * used for previous/next navigation on detail pages
+ */
+export function getAdjacentProjects(projectSlug: string): {
+  previous?: Project;
+  next?: Project;
+} {
+  const index = projects.findIndex((project) => project.slug === projectSlug);
+  if (index === -1) return {};
+
+  return {
+    previous: index > 0 ? projects[index - 1] : undefined,
+    next: index < projects.length - 1 ? projects[index + 1] : undefined,
+  };
+}
+
+const allExperience: Experience[] = parseContent(
+  'content/experience.json',
+  unique(array(experienceSchema), 'id'),
+  experienceJson
+);
+
+/**
+ * Roles, most recent first
+ */
+export const experience: Experience[] = [...allExperience].sort((a, b) =>
+  b.start.localeCompare(a.start)
+);
+
+const allCertifications: Certification[] = parseContent(
+  'content/certifications.json',
+  unique(array(certificationSchema), 'id'),
+  certificationsJson
+);
+
+/**
+ * Certifications, most recently issued first
+ */
+export const certifications: Certification[] = [...allCertifications].sort((a, b) =>
+  b.issued.localeCompare(a.issued)
+);
+
+const allTalks: Talk[] = parseContent(
+  'content/talks.json',
+  unique(array(talkSchema), 'id'),
+  talksJson
+);
+
+/**
+ * Talks, workshops, podcasts and articles, newest first
+ */
+export const talks: Talk[] = [...allTalks].sort((a, b) => b.date.localeCompare(a.date));
+
+const skills = parseContent('content/skills.json', skillsSchema, skillsJson);
+export const skillCategories: SkillCategory[] = skills.categories;
+export const tools: string[] = skills.tools;
+
+// Links to home page sections that have nothing to show
+const emptySections = new Set(
+  Object.entries({
+    experience: allExperience,
+    certifications: allCertifications,
+    talks: allTalks,
+  })
+    .filter(([, entries]) => entries.length === 0)
+    .map(([id]) => `/#${id}`)
+);
+
+const navigation = parseContent('content/navigation.json', navigationSchema, navigationJson);
+export const navItems: NavItem[] = navigation.navItems.filter(
+  (item) => !emptySections.has(item.href)
+);
+export const footerLinks: NavItem[] = navigation.footerLinks.filter(
+  (item) => !emptySections.has(item.href)
+);
+
+export const socialLinks: SocialLink[] = parseContent(
+  'content/social.json',
+  unique(array(socialLinkSchema), 'id'),
+  socialJson
+);
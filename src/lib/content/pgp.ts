@@ -0,0 +1,130 @@
+/**
+ * PGP Key Loader
+ *
+ * Reads the public key published at /pgp.asc (public/pgp.asc) so the
+ * fingerprint shown on the site and the key used for in-browser encryption
+ * always come from the same file.
+ *
+ * No key ships with the repository: until the site owner commits their
+ * own public key there, getPgpKey() returns null, the encryption
+ * options, fingerprint and key link are left out of the site, and the
+ * build prints a warning saying so.
+ *
+ * The build fails with a ContentValidationError when the file is not an
+ * armored public key, or has no usable encryption subkey (e.g. it has
+ * expired or been revoked), rather than publishing a key nobody can use.
+ *
+ * `clearsign` signs build outputs such as security.txt with the matching
+ * private key when one is available locally (PGP_SIGNING_KEY_FILE, see
+ * site.ts). The private key is never read from the repository.
+ *
+ * Server-only: uses the filesystem, so import it from pages and route
+ * handlers rather than from client components.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createCleartextMessage, decryptKey, readKey, readPrivateKey, sign } from 'openpgp';
+import { ContentValidationError } from './schema';
+import type { PgpKey } from './types';
+
+const KEY_FILE = 'public/pgp.asc';
+
+export function formatFingerprint(hex: string): string {
+  const groups = hex.toUpperCase().match(/.{1,4}/g) ?? [];
+  // gpg prints an extra space between the two halves
+  return [groups.slice(0, 5).join(' '), groups.slice(5).join(' ')].filter(Boolean).join('  ');
+}
+
+let cached: Promise<PgpKey | null> | undefined;
+
+async function loadPgpKey(): Promise<PgpKey | null> {
+  const filePath = path.join(process.cwd(), KEY_FILE);
+  if (!fs.existsSync(filePath)) {
+    console.warn(
+      `Warning: ${KEY_FILE} not found, so no OpenPGP key is published and encryption is left out of the site.`
+    );
+    return null;
+  }
+
+  const armored = fs.readFileSync(filePath, 'utf8');
+
+  let key;
+  try {
+    key = await readKey({ armoredKey: armored });
+  } catch (error) {
+    throw new ContentValidationError(
+      KEY_FILE,
+      '(root)',
+      `is not an armored OpenPGP key (${(error as Error).message})`
+    );
+  }
+
+  if (key.isPrivate()) {
+    throw new ContentValidationError(
+      KEY_FILE,
+      '(root)',
+      'contains a private key; publish only the public key'
+    );
+  }
+
+  try {
+    await key.getEncryptionKey();
+  } catch (error) {
+    throw new ContentValidationError(
+      KEY_FILE,
+      '(root)',
+      `has no usable encryption key (${(error as Error).message})`
+    );
+  }
+
+  const expiration = await key.getExpirationTime();
+
+  return {
+    armored,
+    fingerprint: formatFingerprint(key.getFingerprint()),
+    userId: key.getUserIDs()[0] ?? '',
+    expires: expiration instanceof Date ? expiration.toISOString().slice(0, 10) : undefined,
+  };
+}
+
+/**
+ * The published key, or null when public/pgp.asc does not exist
+ */
+export function getPgpKey(): Promise<PgpKey | null> {
+  cached ??= loadPgpKey();
+  return cached;
+}
+
+/**
+ * Clearsigns `text` with the key in PGP_SIGNING_KEY_FILE, or returns null
+ * when that variable is not set. Fails when the signing key is not the
+ * one published at /pgp.asc, since nobody could verify the signature.
+ */
+export async function clearsign(text: string): Promise<string | null> {
+  const keyFile = process.env.PGP_SIGNING_KEY_FILE;
+  if (!keyFile) return null;
+
+  let signingKey = await readPrivateKey({ armoredKey: fs.readFileSync(keyFile, 'utf8') });
+  if (!signingKey.isDecrypted()) {
+    const passphrase = process.env.PGP_SIGNING_KEY_PASSPHRASE;
+    if (!passphrase) {
+      throw new Error(`${keyFile} is passphrase-protected; set PGP_SIGNING_KEY_PASSPHRASE`);
+    }
+    signingKey = await decryptKey({ privateKey: signingKey, passphrase });
+  }
+
+  const published = await getPgpKey();
+  const fingerprint = formatFingerprint(signingKey.getFingerprint());
+  if (published?.fingerprint !== fingerprint) {
+    throw new Error(
+      `PGP_SIGNING_KEY_FILE holds key ${fingerprint}, but ${KEY_FILE} publishes ${published?.fingerprint ?? 'no key'}`
+    );
+  }
+
+  return sign({
+    message: await createCleartextMessage({ text }),
+    signingKeys: signingKey,
+    format: 'armored',
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * Blog Post Loader
+ *
+ * Reads MDX write-ups from `content/posts/` at build time.
+ *
+ * - Frontmatter is validated with the same schema helpers as the JSON
+ *   content, so a missing title or malformed date fails `next build`
+ * - Drafts (`draft: true`) are visible in `next dev` but excluded from
+ *   production builds, static params, feeds and the sitemap; the sample
+ *   post in content/posts/ is one
+ * - Reading time and the table of contents are derived from the source
+ *
+ * Server-only: uses the filesystem, so import it from pages and route
+ * handlers rather than from client components.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ReactElement } from 'react';
+import matter from 'gray-matter';
+import GithubSlugger from 'github-slugger';
+import { compileMDX } from 'next-mdx-remote/rsc';
+import rehypeSlug from 'rehype-slug';
+import rehypePrettyCode from 'rehype-pretty-code';
+import { array, boolean, isoDate, object, optional, parseContent, slug, string } from './schema';
+import type { Post, PostFrontmatter, TocHeading } from './types';
+
+const POSTS_DIR = path.join(process.cwd(), 'content', 'posts');
+
+// Average adult silent reading speed for technical prose
+const WORDS_PER_MINUTE = 200;
+
+const frontmatterSchema = object<PostFrontmatter>({
+  title: string(),
+  date: isoDate(),
+  updated: optional(isoDate()),
+  tags: array(slug()),
+  summary: string(),
+  draft: boolean(),
+});
+
+/**
+ * Removes fenced code blocks so headings and word counts ignore code
+ */
+function stripCodeBlocks(source: string): string {
+  return source.replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1\s*$/gm, '');
+}
+
+/**
+ * Estimated reading time in whole minutes (at least 1)
+ */
+function getReadingTime(source: string): number {
+  const words = stripCodeBlocks(source)
+    .replace(/<[^>]+>/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean).length;
+
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+}
+
+/**
+ * Extracts h2/h3 headings for the table of contents.
+ * Ids are generated with github-slugger, the same algorithm rehype-slug
+ * uses, so TOC links match the rendered heading anchors.
+ */
+function getHeadings(source: string): TocHeading[] {
+  const slugger = new GithubSlugger();
+  const headings: TocHeading[] = [];
+
+  for (const match of stripCodeBlocks(source).matchAll(/^(#{1,6})\s+(.+?)\s*#*\s*$/gm)) {
+    const text = match[2]
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+      .replace(/[*_~]/g, '');
+    // Slug every heading so duplicate suffixes (-1, -2) stay in step
+    const id = slugger.slug(text);
+    const depth = match[1].length;
+
+    if (depth === 2 || depth === 3) {
+      headings.push({ id, text, depth });
+    }
+  }
+
+  return headings;
+}
+
+function readPost(fileName: string): Post {
+  const file = `content/posts/${fileName}`;
+  const raw = fs.readFileSync(path.join(POSTS_DIR, fileName), 'utf8');
+  const { data, content } = matter(raw);
+
+  return {
+    ...parseContent(file, frontmatterSchema, data),
+    slug: parseContent(file, slug(), fileName.replace(/\.mdx$/, '')),
+    body: content,
+    readingTime: getReadingTime(content),
+    headings: getHeadings(content),
+  };
+}
+
+/**
+ * All posts, newest first. Drafts are only included outside production.
+ */
+export function getAllPosts(): Post[] {
+  if (!fs.existsSync(POSTS_DIR)) return [];
+
+  const includeDrafts = process.env.NODE_ENV !== 'production';
+
+  return fs
+    .readdirSync(POSTS_DIR)
+    .filter((fileName) => fileName.endsWith('.mdx'))
+    .map(readPost)
+    .filter((post) => includeDrafts || !post.draft)
+    .sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title));
+}
+
+export function getPost(postSlug: string): Post | undefined {
+  return getAllPosts().find((post) => post.slug === postSlug);
+}
+
+/**
+ * Every tag with the number of posts using it, most used first
+ */
+export function getAllTags(): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, number>();
+
+  getAllPosts().forEach((post) => {
+    post.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+export function getPostsByTag(tag: string): Post[] {
+  return getAllPosts().filter((post) => post.tags.includes(tag));
+}
+
+/**
+ * Static params for the post and tag routes. `output: 'export'` fails
+ * when a dynamic route has none, so while nothing is published a single
+ * placeholder is returned, which those pages render as a 404.
+ */
+export function toStaticParams<K extends string>(
+  key: K,
+  values: string[]
+): Array<Record<K, string>> {
+  return (values.length > 0 ? values : ['_']).map(
+    (value) => ({ [key]: value }) as Record<K, string>
+  );
+}
+
+/**
+ * Compiles a post's MDX body to React at build time.
+ * Code blocks are highlighted by Shiki with paired light/dark themes,
+ * switched in CSS via [data-theme="dark"].
+ */
+export async function renderPost(post: Post): Promise<ReactElement> {
+  const { content } = await compileMDX({
+    source: post.body,
+    options: {
+      mdxOptions: {
+        rehypePlugins: [
+          rehypeSlug,
+          [
+            rehypePrettyCode,
+            {
+              theme: { light: 'github-light', dark: 'github-dark' },
+              keepBackground: false,
+            },
+          ],
+        ],
+      },
+    },
+  });
+
+  return content;
+}
@@ -0,0 +1,252 @@
+/**
+ * Security Research Importer
+ *
+ * Builds the Research section from export files dropped into
+ * `content/research/`, so disclosures are never maintained by hand.
+ *
+ * Supported files:
+ * - `.json` containing CVE JSON 5.x records (`"dataType": "CVE_RECORD"`),
+ *   either a single record or an array; rejected CVEs are skipped
+ * - `.json` containing an array of flat objects (bug bounty / advisory exports)
+ * - `.csv` bug bounty exports with a header row
+ *
+ * Flat rows are matched by column name (first match wins, case-insensitive):
+ * - id: id, reference, ghsa_id
+ * - title: title, summary
+ * - product: product, program, team_handle, target
+ * - severity: severity_rating, severity, priority (Bugcrowd P1-P5)
+ * - CVSS: cvss_score / cvss, cvss_vector / vector
+ * - disclosed: disclosed_at, disclosed, published_at (timestamps are truncated)
+ * - link: url, report_url, reference_url, html_url
+ * - kind: type ("bounty" or "advisory", default "bounty")
+ *
+ * When a CVSS score is present the severity is derived from it. Every
+ * normalised entry is validated with the content schema, so a bad export
+ * fails `next build` with a ContentValidationError naming the file and
+ * the record's index in it. Links must be http(s) URLs.
+ *
+ * Server-only: uses the filesystem, so import it from pages and route
+ * handlers rather than from client components.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseCsv } from './csv';
+import {
+  array,
+  ContentValidationError,
+  httpUrl,
+  isoDate,
+  number,
+  object,
+  oneOf,
+  optional,
+  parseContent,
+  string,
+} from './schema';
+import { RESEARCH_KINDS, SEVERITIES, type ResearchEntry, type Severity } from './types';
+import { severityFromScore } from '@/lib/research';
+
+const RESEARCH_DIR = path.join(process.cwd(), 'content', 'research');
+
+const entrySchema = object<ResearchEntry>({
+  id: string(),
+  kind: oneOf(RESEARCH_KINDS),
+  title: string(),
+  product: string(),
+  severity: oneOf(SEVERITIES),
+  cvssScore: optional(number({ min: 0, max: 10 })),
+  cvssVector: optional(string()),
+  disclosed: isoDate(),
+  url: httpUrl(),
+});
+
+const COLUMNS: Record<keyof ResearchEntry, string[]> = {
+  id: ['id', 'reference', 'ghsa_id'],
+  kind: ['type'],
+  title: ['title', 'summary'],
+  product: ['product', 'program', 'team_handle', 'target'],
+  severity: ['severity_rating', 'severity', 'priority'],
+  cvssScore: ['cvss_score', 'cvss'],
+  cvssVector: ['cvss_vector', 'vector'],
+  disclosed: ['disclosed_at', 'disclosed', 'published_at'],
+  url: ['url', 'report_url', 'reference_url', 'html_url'],
+};
+
+// Bugcrowd priorities and common labels mapped onto the CVSS scale
+const SEVERITY_ALIASES: Record<string, Severity> = {
+  p1: 'critical',
+  p2: 'high',
+  p3: 'medium',
+  p4: 'low',
+  p5: 'none',
+  informational: 'none',
+  info: 'none',
+};
+
+/**
+ * Subset of the CVE JSON 5.x record format used by the importer
+ */
+interface CveRecord {
+  dataType: 'CVE_RECORD';
+  cveMetadata?: { cveId?: string; state?: string; datePublished?: string };
+  containers?: {
+    cna?: {
+      title?: string;
+      descriptions?: Array<{ lang?: string; value?: string }>;
+      affected?: Array<{ vendor?: string; product?: string }>;
+      metrics?: Array<Record<string, { baseScore?: number; vectorString?: string } | undefined>>;
+      references?: Array<{ url?: string; tags?: string[] }>;
+    };
+  };
+}
+
+// Newest CVSS version first
+const CVSS_METRIC_KEYS = ['cvssV4_0', 'cvssV3_1', 'cvssV3_0'];
+
+function isCveRecord(value: unknown): value is CveRecord {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { dataType?: unknown }).dataType === 'CVE_RECORD'
+  );
+}
+
+/**
+ * "2024-03-02T10:15:00Z" -> "2024-03-02"; other values are left for
+ * the date validator to report
+ */
+function toDate(value: unknown): unknown {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value;
+}
+
+function toSeverity(label: unknown, cvssScore: unknown): unknown {
+  if (typeof cvssScore === 'number' && Number.isFinite(cvssScore)) {
+    return severityFromScore(cvssScore);
+  }
+  if (typeof label !== 'string') return label;
+
+  const normalised = label.trim().toLowerCase();
+  return SEVERITY_ALIASES[normalised] ?? normalised;
+}
+
+function fromCveRecord(record: CveRecord): Record<string, unknown> {
+  const cna = record.containers?.cna;
+  const cveId = record.cveMetadata?.cveId;
+  const affected = cna?.affected?.[0];
+  const metrics = cna?.metrics ?? [];
+  const metric = CVSS_METRIC_KEYS.map((key) => metrics.find((entry) => entry[key])?.[key]).find(
+    Boolean
+  );
+  const advisory =
+    cna?.references?.find((reference) => reference.tags?.includes('vendor-advisory')) ??
+    cna?.references?.[0];
+  const description = cna?.descriptions?.find((entry) => entry.lang?.startsWith('en'));
+
+  return {
+    id: cveId,
+    kind: 'cve',
+    title: cna?.title ?? description?.value,
+    product: affected?.product ?? affected?.vendor,
+    severity: toSeverity(undefined, metric?.baseScore),
+    cvssScore: metric?.baseScore,
+    cvssVector: metric?.vectorString,
+    disclosed: toDate(record.cveMetadata?.datePublished),
+    url: advisory?.url ?? (cveId && `https://www.cve.org/CVERecord?id=${cveId}`),
+  };
+}
+
+function fromFlatRecord(record: Record<string, unknown>): Record<string, unknown> {
+  const lowerCased = Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key.toLowerCase(), value])
+  );
+  const pick = (field: keyof typeof COLUMNS): unknown => {
+    const value = COLUMNS[field]
+      .map((column) => lowerCased[column])
+      .find((candidate) => candidate !== undefined && candidate !== null && candidate !== '');
+    return typeof value === 'string' ? value.trim() : value;
+  };
+
+  const id = pick('id');
+  const rawScore = pick('cvssScore');
+  const cvssScore =
+    typeof rawScore === 'string' && rawScore !== '' && !Number.isNaN(Number(rawScore))
+      ? Number(rawScore)
+      : rawScore;
+
+  return {
+    id: typeof id === 'number' ? String(id) : id,
+    kind: pick('kind') ?? 'bounty',
+    title: pick('title'),
+    product: pick('product'),
+    severity: toSeverity(pick('severity'), cvssScore),
+    cvssScore,
+    cvssVector: pick('cvssVector'),
+    disclosed: toDate(pick('disclosed')),
+    url: pick('url'),
+  };
+}
+
+/**
+ * Parses one export file into unvalidated entries. Rejected CVEs become
+ * null rather than being dropped, so error paths keep the record's index.
+ */
+function readFile(file: string): Array<Record<string, unknown> | null> {
+  const raw = fs.readFileSync(file, 'utf8');
+
+  if (file.endsWith('.csv')) {
+    return parseCsv(raw).map(fromFlatRecord);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new ContentValidationError(file, '(root)', `is not valid JSON (${(error as Error).message})`);
+  }
+
+  const records = Array.isArray(data) ? data : [data];
+
+  return records.map((record) => {
+    if (!isCveRecord(record)) return fromFlatRecord(record as Record<string, unknown>);
+    return record.cveMetadata?.state === 'REJECTED' ? null : fromCveRecord(record);
+  });
+}
+
+/**
+ * Every imported entry, newest disclosure first.
+ * Ids must be unique across all files.
+ *
+ * @param dir - Directory to import from; tests point this at fixtures
+ */
+export function getResearchEntries(dir = RESEARCH_DIR): ResearchEntry[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const seen = new Map<string, string>();
+  const entries: ResearchEntry[] = [];
+
+  fs.readdirSync(dir)
+    .filter((fileName) => /\.(csv|json)$/.test(fileName))
+    .sort()
+    .forEach((fileName) => {
+      const file = path.relative(process.cwd(), path.join(dir, fileName));
+      const parsed = parseContent(file, array(optional(entrySchema)), readFile(file));
+
+      parsed.forEach((entry, index) => {
+        if (!entry) return;
+
+        const first = seen.get(entry.id);
+        if (first) {
+          throw new ContentValidationError(
+            file,
+            `[${index}].id`,
+            `duplicates an entry in ${first} ("${entry.id}"); ids must be unique`
+          );
+        }
+        seen.set(entry.id, file);
+        entries.push(entry);
+      });
+    });
+
+  return entries.sort((a, b) => b.disclosed.localeCompare(a.disclosed));
+}
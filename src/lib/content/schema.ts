@@ -0,0 +1,290 @@
+/**
+ * Content Schema
+ *
+ * Minimal, dependency-free validators for the JSON files in `content/`.
+ *
+ * Each validator takes an unknown value plus the dotted path of the field
+ * being checked and either returns the typed value or throws a FieldError.
+ * `parseContent` catches that error and re-throws it as a
+ * ContentValidationError naming the file and field, so a bad edit fails
+ * `next build` with a message like:
+ *
+ *   Invalid content in content/projects.json: "[3].color" must be one of
+ *   "blue" | "green" | "orange" | "purple" (received "red")
+ */
+
+/**
+ * Raised when a content file does not match its schema.
+ * Carries the file and field so the build output points at the exact edit.
+ */
+export class ContentValidationError extends Error {
+  readonly file: string;
+  readonly field: string;
+
+  constructor(file: string, field: string, detail: string) {
+    super(`Invalid content in ${file}: "${field}" ${detail}`);
+    this.name = 'ContentValidationError';
+    this.file = file;
+    this.field = field;
+  }
+}
+
+/**
+ * Internal error thrown by validators; converted to a
+ * ContentValidationError once the file name is known.
+ */
+class FieldError extends Error {
+  readonly path: string;
+
+  constructor(path: string, detail: string) {
+    super(detail);
+    this.path = path;
+  }
+}
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/**
+ * Describes a received value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? 'an invalid date' : 'a date';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Required, non-empty string
+ */
+export function string(): Schema<string> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new FieldError(path, `must be a non-empty string (received ${describe(value)})`);
+    }
+    return value;
+  };
+}
+
+/**
+ * URL-safe identifier: lowercase letters, digits and single hyphens
+ */
+export function slug(): Schema<string> {
+  const pattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+  return (value, path) => {
+    const text = string()(value, path);
+    if (!pattern.test(text)) {
+      throw new FieldError(path, `must be a lowercase, hyphen-separated slug (received ${describe(value)})`);
+    }
+    return text;
+  };
+}
+
+/**
+ * Absolute http: or https: URL, for links taken from imported files
+ */
+export function httpUrl(): Schema<string> {
+  return (value, path) => {
+    const text = string()(value, path);
+    let protocol = '';
+    try {
+      protocol = new URL(text).protocol;
+    } catch {
+      // Reported below
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new FieldError(path, `must be an http(s) URL (received ${describe(value)})`);
+    }
+    return text;
+  };
+}
+
+/**
+ * Required integer
+ */
+export function integer(): Schema<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw new FieldError(path, `must be an integer (received ${describe(value)})`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Finite number within an inclusive range (e.g. a CVSS score, 0-10)
+ */
+export function number(options: { min?: number; max?: number } = {}): Schema<number> {
+  const { min = -Infinity, max = Infinity } = options;
+
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      throw new FieldError(path, `must be a number from ${min} to ${max} (received ${describe(value)})`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Required boolean
+ */
+export function boolean(): Schema<boolean> {
+  return (value, path) => {
+    if (typeof value !== 'boolean') {
+      throw new FieldError(path, `must be true or false (received ${describe(value)})`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Calendar date, normalised to `YYYY-MM-DD`.
+ * Accepts Date objects because YAML frontmatter parses bare dates into them.
+ */
+export function isoDate(): Schema<string> {
+  const pattern = /^\d{4}-\d{2}-\d{2}$/;
+
+  return (value, path) => {
+    if (value instanceof Date && !Number.isNaN(value.getTime())) {
+      return value.toISOString().slice(0, 10);
+    }
+    if (
+      typeof value !== 'string' ||
+      !pattern.test(value) ||
+      Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+    ) {
+      throw new FieldError(path, `must be a date in YYYY-MM-DD format (received ${describe(value)})`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Calendar month in `YYYY-MM` format
+ */
+export function yearMonth(): Schema<string> {
+  const pattern = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+  return (value, path) => {
+    if (typeof value !== 'string' || !pattern.test(value)) {
+      throw new FieldError(path, `must be a month in YYYY-MM format (received ${describe(value)})`);
+    }
+    return value;
+  };
+}
+
+/**
+ * One of a fixed set of string literals (e.g. the accent colour union)
+ */
+export function oneOf<T extends string>(options: readonly T[]): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      const allowed = options.map((option) => `"${option}"`).join(' | ');
+      throw new FieldError(path, `must be one of ${allowed} (received ${describe(value)})`);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * Field that may be omitted; `null` is treated as omitted
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+/**
+ * Array whose items all match `item`
+ */
+export function array<T>(item: Schema<T>, options: { minLength?: number } = {}): Schema<T[]> {
+  const minLength = options.minLength ?? 0;
+
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new FieldError(path, `must be an array (received ${describe(value)})`);
+    }
+    if (value.length < minLength) {
+      throw new FieldError(path, `must contain at least ${minLength} item(s)`);
+    }
+    return value.map((entry, index) => item(entry, join(path, index)));
+  };
+}
+
+/**
+ * Object with a fixed shape. Unknown keys are rejected so typos
+ * (e.g. "tecnologies") surface instead of being silently ignored.
+ */
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new FieldError(path, `must be an object (received ${describe(value)})`);
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (!(key in shape)) {
+        throw new FieldError(join(path, key), 'is not a known field');
+      }
+    }
+
+    const result = {} as T;
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const parsed = shape[key](record[key], join(path, key));
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+    return result;
+  };
+}
+
+/**
+ * Wraps an array schema and rejects duplicate values of `key`
+ */
+export function unique<T, K extends keyof T>(schema: Schema<T[]>, key: K): Schema<T[]> {
+  return (value, path) => {
+    const items = schema(value, path);
+    const seen = new Map<unknown, number>();
+
+    items.forEach((item, index) => {
+      const id = item[key];
+      const first = seen.get(id);
+      if (first !== undefined) {
+        throw new FieldError(
+          join(join(path, index), String(key)),
+          `duplicates ${join(path, first)} (${describe(id)}); values must be unique`
+        );
+      }
+      seen.set(id, index);
+    });
+
+    return items;
+  };
+}
+
+/**
+ * Validates the parsed contents of a content file.
+ *
+ * @param file - Repository-relative path, used in error messages
+ * @param schema - Schema describing the file's root value
+ * @param data - Parsed JSON
+ */
+export function parseContent<T>(file: string, schema: Schema<T>, data: unknown): T {
+  try {
+    return schema(data, '');
+  } catch (error) {
+    if (error instanceof FieldError) {
+      throw new ContentValidationError(file, error.path || '(root)', error.message);
+    }
+    throw error;
+  }
+}
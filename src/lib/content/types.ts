@@ -0,0 +1,188 @@
+/**
+ * Content Types
+ *
+ * Shapes of the entries stored in the `content/` directory.
+ * Components import these instead of declaring their own interfaces
+ * so the data and the UI never disagree about a field.
+ */
+
+import type { Messages } from '@/lib/i18n';
+import type { AccentColor } from '@/styles/tokens';
+
+/**
+ * Accent colours available to cards, defined with the design tokens
+ * (rendered as `data-accent="blue"`, ...)
+ */
+export { ACCENT_COLORS, type AccentColor } from '@/styles/tokens';
+
+// Project shown in the Projects grid and on /projects/[slug]
+export interface Project {
+  id: number;
+  slug: string;
+  /** Publish date; undated projects are left out of the feeds */
+  date?: string;
+  updated?: string;
+  title: string;
+  description: string;
+  longDescription: string;
+  /** Paragraphs shown after longDescription on the project's page */
+  writeup?: string[];
+  technologies: string[];
+  category: string;
+  icon: string;
+  github?: string;
+  demo?: string;
+  color: AccentColor;
+  /** Listed under "Selected projects" on the résumé */
+  featured?: boolean;
+  draft?: boolean;
+}
+
+// Role shown on the résumé; months are `YYYY-MM`, no `end` means current
+export interface Experience {
+  id: string;
+  role: string;
+  company: string;
+  location: string;
+  start: string;
+  end?: string;
+  summary: string;
+  highlights: string[];
+  technologies: string[];
+}
+
+// Professional certification; dates are `YYYY-MM-DD`, no `expires` means it never lapses
+export interface Certification {
+  id: string;
+  name: string;
+  issuer: string;
+  credentialId: string;
+  issued: string;
+  expires?: string;
+  verifyUrl: string;
+  /** Site-relative path to the badge image in public/ */
+  badge: string;
+}
+
+// Qualitative severity rating (CVSS v3/v4 scale)
+export const SEVERITIES = ['critical', 'high', 'medium', 'low', 'none'] as const;
+export type Severity = (typeof SEVERITIES)[number];
+
+export const RESEARCH_KINDS = ['cve', 'advisory', 'bounty'] as const;
+export type ResearchKind = (typeof RESEARCH_KINDS)[number];
+
+// CVE, advisory or bug bounty report imported from content/research/
+export interface ResearchEntry {
+  id: string;
+  kind: ResearchKind;
+  title: string;
+  product: string;
+  severity: Severity;
+  cvssScore?: number;
+  cvssVector?: string;
+  /** Disclosure date, `YYYY-MM-DD` */
+  disclosed: string;
+  url: string;
+}
+
+export const TALK_TYPES = ['talk', 'workshop', 'podcast', 'article'] as const;
+export type TalkType = (typeof TALK_TYPES)[number];
+
+// Talk, workshop, podcast episode or article shown in the Talks section
+export interface Talk {
+  id: string;
+  title: string;
+  type: TalkType;
+  event: string;
+  date: string;
+  location: string;
+  abstract: string;
+  /** Site-relative PDF in public/ (shown in the slide viewer) or an external URL */
+  slides?: string;
+  video?: string;
+  /** Article, episode or event page */
+  url?: string;
+}
+
+// Skill category and item shown in the Skills grid
+export interface Skill {
+  name: string;
+  description: string;
+  icon: string;
+}
+
+export interface SkillCategory {
+  title: string;
+  icon: string;
+  color: AccentColor;
+  skills: Skill[];
+}
+
+export interface SkillsContent {
+  categories: SkillCategory[];
+  tools: string[];
+}
+
+/**
+ * Navigation labels are keys of the "nav" messages in content/messages/
+ */
+export type NavLabel = keyof Messages['nav'];
+
+// In-page navigation link used by Header and Footer; href is unprefixed
+// ("/#about", "/blog/") and localized when rendered
+export interface NavItem {
+  href: string;
+  label: NavLabel;
+}
+
+export interface NavigationContent {
+  navItems: NavItem[];
+  footerLinks: NavItem[];
+}
+
+/**
+ * Icons available for social links (rendered as inline SVG by Footer)
+ */
+export const SOCIAL_ICONS = ['github', 'linkedin', 'twitter'] as const;
+export type SocialIcon = (typeof SOCIAL_ICONS)[number];
+
+export interface SocialLink {
+  id: string;
+  name: string;
+  href: string;
+  icon: SocialIcon;
+}
+
+// Blog post frontmatter (content/posts/*.mdx)
+export interface PostFrontmatter {
+  title: string;
+  date: string;
+  updated?: string;
+  tags: string[];
+  summary: string;
+  draft: boolean;
+}
+
+// Heading extracted from a post for its table of contents
+export interface TocHeading {
+  id: string;
+  text: string;
+  depth: 2 | 3;
+}
+
+export interface Post extends PostFrontmatter {
+  slug: string;
+  body: string;
+  readingTime: number;
+  headings: TocHeading[];
+}
+
+// Public key published at /pgp.asc, read from public/pgp.asc at build time
+export interface PgpKey {
+  armored: string;
+  /** Upper-case hex in groups of four, as printed by `gpg --fingerprint` */
+  fingerprint: string;
+  userId: string;
+  /** `YYYY-MM-DD`, absent when the key does not expire */
+  expires?: string;
+}
@@ -0,0 +1,47 @@
+/**
+ * Date Helpers
+ *
+ * Content dates are stored as `YYYY-MM-DD` strings (`YYYY-MM` for months).
+ * They are formatted in UTC so the rendered date never shifts by a day with
+ * the build machine's or visitor's timezone, and in the page's locale.
+ */
+
+import { DEFAULT_LOCALE, INTL_LOCALES, type Locale } from '@/lib/i18n/config';
+
+const formats = {
+  longDate: { year: 'numeric', month: 'long', day: 'numeric' },
+  shortMonth: { year: 'numeric', month: 'short' },
+} satisfies Record<string, Intl.DateTimeFormatOptions>;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(format: keyof typeof formats, locale: Locale): Intl.DateTimeFormat {
+  const cacheKey = `${format}:${locale}`;
+  let formatter = formatters.get(cacheKey);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(INTL_LOCALES[locale], { ...formats[format], timeZone: 'UTC' });
+    formatters.set(cacheKey, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Formats `2025-03-14` as "March 14, 2025" ("14 मार्च 2025" in Hindi)
+ */
+export function formatDate(isoDate: string, locale: Locale = DEFAULT_LOCALE): string {
+  return getFormatter('longDate', locale).format(new Date(`${isoDate}T00:00:00Z`));
+}
+
+/**
+ * Formats `2025-03` as "Mar 2025" ("मार्च 2025" in Hindi)
+ */
+export function formatMonth(yearMonth: string, locale: Locale = DEFAULT_LOCALE): string {
+  return getFormatter('shortMonth', locale).format(new Date(`${yearMonth}-01T00:00:00Z`));
+}
+
+/**
+ * Today in UTC as `YYYY-MM-DD`
+ */
+export function currentIsoDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
@@ -0,0 +1,140 @@
+/**
+ * Design Token CSS
+ *
+ * Turns src/styles/tokens.ts into the CSS custom properties every
+ * stylesheet uses, and checks the token contrast pairs against WCAG AA.
+ *
+ * Output:
+ * - :root - light theme colours plus the theme-independent scales
+ * - [data-theme="dark"] - dark theme overrides
+ * - [data-accent="<name>"] - sets --accent / --accent-text for a card or
+ *   badge, so components pass an AccentColor instead of a class per colour
+ */
+
+import type { Theme } from '@/lib/theme';
+import {
+  WCAG_AA,
+  accents,
+  brandColors,
+  colors,
+  contrastPairs,
+  fontFamily,
+  fontSizes,
+  glows,
+  motion,
+  radii,
+  shadows,
+  space,
+  zIndex,
+  type AccentColor,
+  type ContrastPair,
+} from '@/styles/tokens';
+
+export const TOKENS_CSS_PATH = '/tokens.css';
+
+export interface ContrastResult extends ContrastPair {
+  theme: Theme;
+  ratio: number;
+  required: number;
+}
+
+function prefixed(prefix: string, values: object): string[] {
+  return Object.entries(values).map(([name, value]) => `  --${prefix}-${name}: ${value};`);
+}
+
+function themeProperties(theme: Theme): string[] {
+  return [
+    ...prefixed('color', colors[theme]),
+    ...Object.entries(accents).flatMap(([name, palette]) => [
+      `  --accent-${name}: ${palette[theme].base};`,
+      `  --accent-${name}-text: ${palette[theme].text};`,
+    ]),
+    ...prefixed('glow', glows[theme]),
+    ...prefixed('shadow', shadows[theme]),
+  ];
+}
+
+export function renderTokensCss(): string {
+  const root = [
+    ...themeProperties('light'),
+    ...prefixed('color', brandColors),
+    `  --font-family: ${fontFamily};`,
+    ...prefixed('font-size', fontSizes),
+    ...prefixed('space', space),
+    ...prefixed('radius', radii),
+    ...prefixed('transition', motion),
+    ...prefixed('z', zIndex),
+  ];
+
+  const accentRules = Object.keys(accents).map(
+    (name) =>
+      `[data-accent="${name}"] {\n  --accent: var(--accent-${name});\n  --accent-text: var(--accent-${name}-text);\n}`
+  );
+
+  return `${[
+    '/* Generated from src/styles/tokens.ts - edit the tokens there */',
+    `:root {\n${root.join('\n')}\n}`,
+    `[data-theme="dark"] {\n${themeProperties('dark').join('\n')}\n}`,
+    ...accentRules,
+  ].join('\n\n')}\n`;
+}
+
+function resolveColor(token: ContrastPair['foreground'], theme: Theme): string {
+  if (token.startsWith('accent:')) {
+    const [, accent, shade] = token.split(':') as [string, AccentColor, 'base' | 'text'];
+    return accents[accent][theme][shade];
+  }
+  return colors[theme][token as keyof (typeof colors)[Theme]];
+}
+
+/**
+ * WCAG relative luminance of a #rrggbb colour
+ */
+function luminance(hex: string): number {
+  const match = /^#([0-9a-f]{6})$/i.exec(hex);
+  if (!match) {
+    throw new Error(`Contrast can only be checked for #rrggbb colours (got "${hex}")`);
+  }
+
+  const value = parseInt(match[1], 16);
+  const [r, g, b] = [value >> 16, (value >> 8) & 0xff, value & 0xff].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function contrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Every contrast pair in every theme, with its ratio
+ */
+export function getContrastResults(): ContrastResult[] {
+  return (Object.keys(colors) as Theme[]).flatMap((theme) =>
+    contrastPairs.map((pair) => ({
+      ...pair,
+      theme,
+      ratio: contrastRatio(resolveColor(pair.foreground, theme), resolveColor(pair.background, theme)),
+      required: WCAG_AA[pair.level],
+    }))
+  );
+}
+
+/**
+ * Throws, listing every failing pair, when a pair is below WCAG AA
+ */
+export function checkContrast(): void {
+  const failures = getContrastResults().filter((result) => result.ratio < result.required);
+  if (failures.length === 0) return;
+
+  const lines = failures.map(
+    ({ theme, foreground, background, ratio, required }) =>
+      `  - ${theme}: ${foreground} on ${background} is ${ratio.toFixed(2)}:1, needs ${required}:1`
+  );
+  throw new Error(
+    `${failures.length} design token pair(s) fail WCAG AA contrast (src/styles/tokens.ts):\n${lines.join('\n')}`
+  );
+}
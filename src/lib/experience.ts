@@ -0,0 +1,91 @@
+/**
+ * Experience Helpers
+ *
+ * Month arithmetic for the Experience timeline and the Hero's
+ * "Years Experience" stat. Roles store `YYYY-MM` months and the current
+ * role has no `end`, so durations are measured up to an `asOf` month.
+ *
+ * `asOf` is passed in rather than read from the clock so that the server
+ * render and client hydration agree; pages use the build month.
+ */
+
+import type { Experience } from '@/lib/content';
+import type { Translator } from '@/lib/i18n';
+
+/**
+ * Current month in UTC as `YYYY-MM`
+ */
+export function currentYearMonth(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+/**
+ * Months since year 0, e.g. `2024-01` -> 24288
+ */
+function toMonthIndex(yearMonth: string): number {
+  const [year, month] = yearMonth.split('-').map(Number);
+  return year * 12 + (month - 1);
+}
+
+/**
+ * Inclusive [start, end] month range of a role
+ */
+function getRoleRange(role: Experience, asOf: string): [number, number] {
+  return [toMonthIndex(role.start), toMonthIndex(role.end ?? asOf)];
+}
+
+/**
+ * Length of a role in months, counting both the first and last month
+ */
+export function getRoleMonths(role: Experience, asOf: string): number {
+  const [start, end] = getRoleRange(role, asOf);
+  return Math.max(end - start + 1, 0);
+}
+
+/**
+ * Total months worked across all roles. Overlapping roles are merged so
+ * concurrent positions are not counted twice.
+ */
+export function getTotalMonths(roles: Experience[], asOf: string): number {
+  const ranges = roles
+    .map((role) => getRoleRange(role, asOf))
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let current: [number, number] | undefined;
+
+  for (const [start, end] of ranges) {
+    if (current && start <= current[1] + 1) {
+      current[1] = Math.max(current[1], end);
+    } else {
+      if (current) total += current[1] - current[0] + 1;
+      current = [start, end];
+    }
+  }
+  if (current) total += current[1] - current[0] + 1;
+
+  return total;
+}
+
+/**
+ * Whole years of experience, as shown in the Hero stat ("14+")
+ */
+export function getTotalYears(roles: Experience[], asOf: string): number {
+  return Math.floor(getTotalMonths(roles, asOf) / 12);
+}
+
+/**
+ * Formats a month count as "3 yrs 2 mos" in the translator's locale
+ */
+export function formatDuration(months: number, t: Translator['t']): string {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  const parts = [];
+
+  if (years > 0) parts.push(t('experience.years', { count: years }));
+  if (remainder > 0 || years === 0) {
+    parts.push(t('experience.months', { count: remainder }));
+  }
+
+  return parts.join(' ');
+}
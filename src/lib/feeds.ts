@@ -0,0 +1,210 @@
+/**
+ * Feed Generation
+ *
+ * Builds RSS 2.0, Atom 1.0 and JSON Feed 1.1 documents from the same
+ * content that drives the Projects section and the blog. Served by the
+ * static route handlers at /feed.xml, /atom.xml and /feed.json.
+ *
+ * - Every URL is absolute (siteConfig.url + basePath)
+ * - Entry ids are tag: URIs derived from the slug and publish date, so
+ *   they never change when an entry is edited or the site moves
+ * - Updated timestamps come from the `updated` field, falling back to `date`
+ * - Projects without a `date` are left out
+ */
+
+import { projects } from '@/lib/content';
+import { getAllPosts } from '@/lib/content/posts';
+import { DEFAULT_LOCALE, localizePath } from '@/lib/i18n';
+import { absoluteUrl, siteConfig } from '@/lib/site';
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  published: string;
+  updated: string;
+  tags: string[];
+}
+
+export const feedTitle = `${siteConfig.name} - Product Security`;
+export const feedDescription =
+  'Security write-ups and projects from Jagat Pradhan, Product Security Engineer.';
+
+/**
+ * Paths of the generated feeds, used for autodiscovery links
+ */
+export const feedPaths = {
+  rss: '/feed.xml',
+  atom: '/atom.xml',
+  json: '/feed.json',
+} as const;
+
+// Feeds are in English, so they link to the default locale's pages
+const homeUrl = absoluteUrl(localizePath(DEFAULT_LOCALE));
+
+/**
+ * Converts a content date (YYYY-MM-DD) to an RFC 3339 timestamp
+ */
+function toTimestamp(isoDate: string): string {
+  return `${isoDate}T00:00:00Z`;
+}
+
+/**
+ * Stable entry id (RFC 4151), e.g. tag:jagat45106.github.io,2025-09-14:/blog/my-post/
+ * The path has no locale prefix, so ids predate and outlive the URL layout
+ */
+function tagUri(date: string, path: string): string {
+  return `tag:${siteConfig.feedIdAuthority},${date}:${path}`;
+}
+
+/**
+ * Posts and projects as feed entries, newest first
+ */
+export function getFeedItems(): FeedItem[] {
+  const postItems = getAllPosts().map((post) => {
+    const path = `/blog/${post.slug}/`;
+    return {
+      id: tagUri(post.date, path),
+      url: absoluteUrl(localizePath(DEFAULT_LOCALE, path)),
+      title: post.title,
+      summary: post.summary,
+      published: toTimestamp(post.date),
+      updated: toTimestamp(post.updated ?? post.date),
+      tags: post.tags,
+    };
+  });
+
+  // Undated projects have no publish date to build an id from
+  const projectItems = projects.flatMap((project) => {
+    if (!project.date) return [];
+
+    const path = `/projects/${project.slug}/`;
+    return [
+      {
+        id: tagUri(project.date, path),
+        url: absoluteUrl(localizePath(DEFAULT_LOCALE, path)),
+        title: `Project: ${project.title}`,
+        summary: project.longDescription,
+        published: toTimestamp(project.date),
+        updated: toTimestamp(project.updated ?? project.date),
+        tags: [project.category, ...project.technologies],
+      },
+    ];
+  });
+
+  return [...postItems, ...projectItems].sort((a, b) => b.published.localeCompare(a.published));
+}
+
+/**
+ * Most recent update across all entries (feed-level updated timestamp)
+ */
+function latestUpdate(items: FeedItem[]): string {
+  return items.reduce(
+    (latest, item) => (item.updated > latest ? item.updated : latest),
+    toTimestamp('1970-01-01')
+  );
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * RSS 2.0 with an atom:link self reference
+ */
+export function renderRss(items: FeedItem[]): string {
+  const entries = items
+    .map(
+      (item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="false">${escapeXml(item.id)}</guid>
+      <pubDate>${new Date(item.published).toUTCString()}</pubDate>
+      <description>${escapeXml(item.summary)}</description>
+${item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`).join('\n')}
+    </item>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feedTitle)}</title>
+    <link>${escapeXml(homeUrl)}</link>
+    <description>${escapeXml(feedDescription)}</description>
+    <language>${siteConfig.language}</language>
+    <lastBuildDate>${new Date(latestUpdate(items)).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(absoluteUrl(feedPaths.rss))}" rel="self" type="application/rss+xml" />
+${entries}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Atom 1.0 (RFC 4287)
+ */
+export function renderAtom(items: FeedItem[]): string {
+  const entries = items
+    .map(
+      (item) => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />
+    <published>${item.published}</published>
+    <updated>${item.updated}</updated>
+    <summary>${escapeXml(item.summary)}</summary>
+${item.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`).join('\n')}
+  </entry>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${siteConfig.language}">
+  <id>${escapeXml(absoluteUrl('/'))}</id>
+  <title>${escapeXml(feedTitle)}</title>
+  <subtitle>${escapeXml(feedDescription)}</subtitle>
+  <updated>${latestUpdate(items)}</updated>
+  <author>
+    <name>${escapeXml(siteConfig.author.name)}</name>
+    <uri>${escapeXml(homeUrl)}</uri>
+  </author>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(absoluteUrl(feedPaths.atom))}" />
+  <link rel="alternate" type="text/html" href="${escapeXml(homeUrl)}" />
+${entries}
+</feed>
+`;
+}
+
+/**
+ * JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+ */
+export function renderJsonFeed(items: FeedItem[]): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feedTitle,
+    home_page_url: homeUrl,
+    feed_url: absoluteUrl(feedPaths.json),
+    description: feedDescription,
+    language: siteConfig.language,
+    authors: [{ name: siteConfig.author.name, url: homeUrl }],
+    items: items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_text: item.summary,
+      date_published: item.published,
+      date_modified: item.updated,
+      tags: item.tags,
+    })),
+  };
+
+  return `${JSON.stringify(feed, null, 2)}\n`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Locale Configuration
+ *
+ * Every page is exported once per locale under a path prefix: /en/...,
+ * /hi/... The unprefixed URLs redirect to the visitor's preferred locale
+ * (see components/LocaleRedirect).
+ */
+
+export const LOCALES = ['en', 'hi'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/**
+ * Language of the entries in content/ (posts, projects, research...).
+ * Only the interface is translated, so long-form content is marked up
+ * with this lang on other locales' pages.
+ */
+export const CONTENT_LOCALE: Locale = 'en';
+
+/**
+ * localStorage key remembering the locale picked in the switcher
+ */
+export const LOCALE_STORAGE_KEY = 'locale';
+
+// Native names, shown in the locale switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  hi: 'हिन्दी',
+};
+
+// BCP 47 tags for Intl date and number formatting
+export const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  hi: 'hi-IN',
+};
+
+// Open Graph locales
+export const OG_LOCALES: Record<Locale, string> = {
+  en: 'en_US',
+  hi: 'hi_IN',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return (LOCALES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Remembers the visitor's choice so the unprefixed URLs redirect to it
+ */
+export function rememberLocale(locale: Locale): void {
+  try {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Storage blocked: the unprefixed URLs fall back to the browser language
+  }
+}
+
+/**
+ * Prefixes a site-relative path with the locale:
+ * ("hi", "/blog/") -> "/hi/blog/", ("en", "/#contact") -> "/en/#contact"
+ */
+export function localizePath(locale: Locale, path = '/'): string {
+  const normalized = path.startsWith('/') ? path : `/${path}`;
+  return `/${locale}${normalized}`;
+}
+
+/**
+ * Splits "/hi/blog/" into the locale and the unprefixed path "/blog/"
+ */
+export function splitLocalePath(pathname: string): { locale?: Locale; path: string } {
+  const [, first, ...rest] = pathname.split('/');
+  if (!isLocale(first)) return { path: pathname };
+  return { locale: first, path: `/${rest.join('/')}` };
+}
@@ -0,0 +1,21 @@
+/**
+ * Internationalisation
+ *
+ * Locales, localized paths and the translator. Client-safe; the catalogs
+ * themselves are loaded by lib/i18n/messages on the server.
+ *
+ * Usage:
+ * import { localizePath, type Locale } from '@/lib/i18n';
+ */
+
+export * from './config';
+export { getLocaleRedirectScript } from './redirect';
+export { createTranslator, lookupMessage } from './translate';
+export type {
+  MessageCatalog,
+  MessageKey,
+  Messages,
+  MessageValues,
+  PluralMessage,
+  Translator,
+} from './translate';
@@ -0,0 +1,117 @@
+/**
+ * Message Catalogs
+ *
+ * Loads content/messages/<locale>.json and checks every catalog against
+ * the English one when the module is first evaluated. A missing or extra
+ * key, a placeholder that differs from English or a missing plural form
+ * fails `next build` with a ContentValidationError naming the catalog and
+ * key.
+ *
+ * Server-only in practice: it bundles every catalog. Client components
+ * receive their locale's catalog through I18nProvider.
+ *
+ * Usage:
+ * const { t, formatDate } = getTranslator(locale);
+ */
+
+import enMessages from '../../../content/messages/en.json';
+import hiMessages from '../../../content/messages/hi.json';
+import { ContentValidationError } from '@/lib/content/schema';
+import { DEFAULT_LOCALE, INTL_LOCALES, LOCALES, type Locale } from './config';
+import {
+  createTranslator,
+  type MessageCatalog,
+  type Messages,
+  type PluralMessage,
+  type Translator,
+} from './translate';
+
+const catalogs: Record<Locale, MessageCatalog> = {
+  en: enMessages,
+  hi: hiMessages,
+};
+
+type Entry = [key: string, message: string | PluralMessage];
+
+function isPlural(value: unknown): value is PluralMessage {
+  return typeof value === 'object' && value !== null && 'other' in value;
+}
+
+/**
+ * Flattens a catalog into dotted keys
+ */
+function flatten(catalog: MessageCatalog, prefix = ''): Entry[] {
+  return Object.entries(catalog).flatMap(([name, value]): Entry[] => {
+    const key = `${prefix}${name}`;
+    if (typeof value === 'string' || isPlural(value)) return [[key, value]];
+    return flatten(value, `${key}.`);
+  });
+}
+
+function placeholders(message: string | PluralMessage): string {
+  const text = typeof message === 'string' ? message : Object.values(message).join(' ');
+  const names = new Set(Array.from(text.matchAll(/\{(\w+)\}|<(\w+)>/g), (match) => match[1] ?? `<${match[2]}>`));
+  return [...names].sort().join(', ') || 'none';
+}
+
+function checkCatalog(locale: Locale): void {
+  const file = `content/messages/${locale}.json`;
+  const source = new Map(flatten(catalogs[DEFAULT_LOCALE]));
+  const entries = new Map(flatten(catalogs[locale]));
+  const requiredForms = new Intl.PluralRules(INTL_LOCALES[locale]).resolvedOptions().pluralCategories;
+
+  const missing = [...source.keys()].filter((key) => !entries.has(key));
+  if (missing.length > 0) {
+    const more = missing.length > 1 ? ` (also missing: ${missing.slice(1).join(', ')})` : '';
+    throw new ContentValidationError(
+      file,
+      missing[0],
+      `is missing; every key in content/messages/${DEFAULT_LOCALE}.json needs a translation${more}`
+    );
+  }
+
+  for (const [key, message] of entries) {
+    const english = source.get(key);
+    if (english === undefined) {
+      throw new ContentValidationError(file, key, `is not in content/messages/${DEFAULT_LOCALE}.json`);
+    }
+
+    const texts = typeof message === 'string' ? [message] : Object.values(message);
+    if (texts.some((text) => typeof text !== 'string' || !text.trim())) {
+      throw new ContentValidationError(file, key, 'must be a non-empty string');
+    }
+
+    if (isPlural(english) !== isPlural(message)) {
+      throw new ContentValidationError(
+        file,
+        key,
+        isPlural(english) ? 'must have plural forms like the English message' : 'must be a string'
+      );
+    }
+
+    if (isPlural(message)) {
+      const forms = requiredForms.filter((form) => !(form in message));
+      if (forms.length > 0) {
+        throw new ContentValidationError(file, key, `is missing plural form(s) ${forms.join(', ')}`);
+      }
+    }
+
+    if (placeholders(message) !== placeholders(english)) {
+      throw new ContentValidationError(
+        file,
+        key,
+        `must use the placeholders ${placeholders(english)} (received ${placeholders(message)})`
+      );
+    }
+  }
+}
+
+LOCALES.forEach(checkCatalog);
+
+export function getMessages(locale: Locale): Messages {
+  return catalogs[locale] as Messages;
+}
+
+export function getTranslator(locale: Locale): Translator {
+  return createTranslator(locale, catalogs[locale]);
+}
@@ -0,0 +1,46 @@
+/**
+ * Localized Metadata
+ *
+ * Canonical URL, hreflang alternates and Open Graph locales for a page
+ * that exists in every locale. Next.js replaces (rather than merges) a
+ * parent's `alternates`, so the feed autodiscovery links are included
+ * here too.
+ *
+ * Usage:
+ * alternates: getAlternates(locale, '/blog/'),
+ * openGraph: { ...getOpenGraphLocales(locale), ... },
+ */
+
+import type { Metadata } from 'next';
+import { feedPaths, feedTitle } from '@/lib/feeds';
+import { absoluteUrl } from '@/lib/site';
+import { DEFAULT_LOCALE, LOCALES, OG_LOCALES, localizePath, type Locale } from './config';
+
+/**
+ * Absolute URL of an unprefixed path in every locale, plus x-default
+ */
+export function getLanguageAlternates(path: string): Record<string, string> {
+  return Object.fromEntries([
+    ...LOCALES.map((locale) => [locale, absoluteUrl(localizePath(locale, path))]),
+    ['x-default', absoluteUrl(localizePath(DEFAULT_LOCALE, path))],
+  ]);
+}
+
+export function getAlternates(locale: Locale, path: string): Metadata['alternates'] {
+  return {
+    canonical: absoluteUrl(localizePath(locale, path)),
+    languages: getLanguageAlternates(path),
+    types: {
+      'application/rss+xml': [{ url: absoluteUrl(feedPaths.rss), title: feedTitle }],
+      'application/atom+xml': [{ url: absoluteUrl(feedPaths.atom), title: feedTitle }],
+      'application/feed+json': [{ url: absoluteUrl(feedPaths.json), title: feedTitle }],
+    },
+  };
+}
+
+export function getOpenGraphLocales(locale: Locale): { locale: string; alternateLocale: string[] } {
+  return {
+    locale: OG_LOCALES[locale],
+    alternateLocale: LOCALES.filter((other) => other !== locale).map((other) => OG_LOCALES[other]),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Locale Redirect
+ *
+ * The unprefixed URLs (/, /blog/, ...) predate the locale prefixes and
+ * are still linked from elsewhere, so they are exported as small pages
+ * that forward to the same path in the visitor's locale: the one picked
+ * in the switcher, else the first supported browser language, else the
+ * default locale.
+ */
+
+import { withBasePath } from '@/lib/site';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_STORAGE_KEY } from './config';
+
+/**
+ * Inline script for the redirect page of `path`. Runs while the page is
+ * parsed, before the <meta http-equiv="refresh"> fallback to the default
+ * locale fires, and keeps the query string and hash.
+ */
+export function getLocaleRedirectScript(path: string): string {
+  return `(function () {
+  var locales = ${JSON.stringify(LOCALES)};
+  var locale = null;
+  try {
+    var stored = localStorage.getItem(${JSON.stringify(LOCALE_STORAGE_KEY)});
+    if (locales.indexOf(stored) !== -1) locale = stored;
+  } catch (e) {}
+  var languages = navigator.languages || [navigator.language];
+  for (var i = 0; !locale && i < languages.length; i++) {
+    var language = String(languages[i]).toLowerCase().split('-')[0];
+    if (locales.indexOf(language) !== -1) locale = language;
+  }
+  locale = locale || ${JSON.stringify(DEFAULT_LOCALE)};
+  location.replace(${JSON.stringify(withBasePath('/'))} + locale + ${JSON.stringify(path).replace(/</g, '\\u003c')} + location.search + location.hash);
+})();`;
+}
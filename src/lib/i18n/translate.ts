@@ -0,0 +1,131 @@
+/**
+ * Translator
+ *
+ * Looks up messages from a catalog in content/messages/ and formats dates
+ * and numbers for a locale. Client-safe: client components get the catalog
+ * from I18nProvider (see hooks/useI18n), server components from
+ * getTranslator() in lib/i18n/messages.
+ *
+ * Message syntax:
+ * - "{name}" is replaced by `values.name`; numbers are formatted for the
+ *   locale, so pass years and other identifiers as strings
+ * - { "one": "...", "other": "..." } picks a plural form by `values.count`
+ *   (Intl.PluralRules categories)
+ * - "<link>text</link>" marks up a range for rich(), e.g. to wrap it in
+ *   an <a>; t() returns the text without the tags
+ */
+
+import { Fragment, createElement, type ReactNode } from 'react';
+import { formatDate, formatMonth } from '@/lib/dates';
+import { INTL_LOCALES, localizePath, type Locale } from './config';
+
+export type Messages = typeof import('../../../content/messages/en.json');
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export interface MessageCatalog {
+  [key: string]: string | PluralMessage | MessageCatalog;
+}
+
+/**
+ * Dotted path of every message in the English catalog, e.g. "hero.title"
+ */
+type MessagePaths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string | { other: string }
+    ? `${Prefix}${K}`
+    : MessagePaths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+export type MessageValues = Record<string, string | number>;
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  /** Like t(), with `<tag>...</tag>` ranges rendered by `tags.tag(text)` */
+  rich: (
+    key: MessageKey,
+    tags: Record<string, (chunk: string) => ReactNode>,
+    values?: MessageValues
+  ) => ReactNode;
+  formatNumber: (value: number) => string;
+  formatDate: (isoDate: string) => string;
+  formatMonth: (yearMonth: string) => string;
+  /** Site-relative path in this locale, e.g. "/blog/" -> "/hi/blog/" */
+  localizePath: (path?: string) => string;
+}
+
+const TAG_RE = /<(\w+)>(.*?)<\/\1>/g;
+
+function isPlural(message: unknown): message is PluralMessage {
+  return typeof message === 'object' && message !== null && 'other' in message;
+}
+
+/**
+ * Message at a dotted path, or undefined when the path is not a message
+ */
+export function lookupMessage(
+  catalog: MessageCatalog,
+  key: string
+): string | PluralMessage | undefined {
+  let node: MessageCatalog[string] | undefined = catalog;
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object' || node === null || isPlural(node)) return undefined;
+    node = node[part];
+  }
+  return typeof node === 'string' || isPlural(node) ? node : undefined;
+}
+
+export function createTranslator(locale: Locale, catalog: MessageCatalog): Translator {
+  const intlLocale = INTL_LOCALES[locale];
+  const numbers = new Intl.NumberFormat(intlLocale);
+  const plurals = new Intl.PluralRules(intlLocale);
+
+  const format = (key: MessageKey, values: MessageValues = {}): string => {
+    const message = lookupMessage(catalog, key);
+    if (message === undefined) {
+      // The build checks every catalog, so this only happens with a typo'd key in dev
+      console.error(`Missing message "${key}" for locale "${locale}"`);
+      return key;
+    }
+
+    const template =
+      typeof message === 'string'
+        ? message
+        : (message[plurals.select(Number(values.count))] ?? message.other);
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = values[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+  };
+
+  return {
+    locale,
+    t: (key, values) => format(key, values).replace(TAG_RE, '$2'),
+    rich: (key, tags, values) => {
+      const text = format(key, values);
+      const nodes: ReactNode[] = [];
+      let last = 0;
+
+      for (const match of text.matchAll(TAG_RE)) {
+        const [whole, tag, chunk] = match;
+        nodes.push(text.slice(last, match.index));
+        const render = tags[tag];
+        nodes.push(
+          createElement(Fragment, { key: match.index }, render ? render(chunk) : chunk)
+        );
+        last = match.index + whole.length;
+      }
+      nodes.push(text.slice(last));
+
+      return nodes;
+    },
+    formatNumber: (value) => numbers.format(value),
+    formatDate: (isoDate) => formatDate(isoDate, locale),
+    formatMonth: (yearMonth) => formatMonth(yearMonth, locale),
+    localizePath: (path) => localizePath(locale, path),
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Motion
+ *
+ * The visitor's reduced-motion preference and the reveal-on-scroll system
+ * behind useInView and <Reveal>.
+ *
+ * Reveal content starts hidden only when `revealScript` has set
+ * data-reveal on <html> before the first paint, which it does when
+ * IntersectionObserver exists and reduced motion is off. Without
+ * JavaScript, for reduced-motion visitors, or when the bundle has not
+ * hydrated REVEAL_TIMEOUT_MS after the script ran, the attribute is absent
+ * and everything is simply shown, so content is never stuck invisible.
+ *
+ * Every revealed element is watched by one shared IntersectionObserver.
+ * Elements that come into view together are reported with their order in
+ * that batch, which <Reveal> turns into a stagger delay.
+ */
+
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const REVEAL_ATTRIBUTE = 'data-reveal';
+const READY_ATTRIBUTE = 'data-reveal-ready';
+
+/** Content is shown without animation if the app has not hydrated by then */
+const REVEAL_TIMEOUT_MS = 5000;
+
+/** Called with whether the element is in view and its order among the elements that changed with it */
+export type InViewListener = (inView: boolean, order: number) => void;
+
+interface Watched {
+  listener: InViewListener;
+  once: boolean;
+}
+
+const watched = new Map<Element, Watched>();
+let observer: IntersectionObserver | undefined;
+
+export function prefersReducedMotion(): boolean {
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+/**
+ * Whether reveal animations run on this page view (see revealScript)
+ */
+export function isRevealEnabled(): boolean {
+  return document.documentElement.hasAttribute(REVEAL_ATTRIBUTE);
+}
+
+function disableReveal(): void {
+  document.documentElement.removeAttribute(REVEAL_ATTRIBUTE);
+  watched.forEach(({ listener }) => listener(true, 0));
+  watched.clear();
+  observer?.disconnect();
+  observer = undefined;
+}
+
+function getObserver(): IntersectionObserver {
+  if (observer) return observer;
+
+  document.documentElement.setAttribute(READY_ATTRIBUTE, '');
+  // Switching reduced motion on mid-visit shows everything straight away
+  window.matchMedia(REDUCED_MOTION_QUERY).addEventListener('change', (event) => {
+    if (event.matches) disableReveal();
+  });
+
+  observer = new IntersectionObserver(
+    (entries) => {
+      const sorted = [...entries].sort((a, b) =>
+        a.target.compareDocumentPosition(b.target) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+      );
+      let order = 0;
+
+      for (const entry of sorted) {
+        const item = watched.get(entry.target);
+        if (!item) continue;
+
+        if (entry.isIntersecting) {
+          item.listener(true, order++);
+          if (item.once) unobserveInView(entry.target);
+        } else if (!item.once) {
+          item.listener(false, 0);
+        }
+      }
+    },
+    { threshold: 0.1, rootMargin: '0px 0px -50px 0px' }
+  );
+  return observer;
+}
+
+/**
+ * Watches an element with the shared observer. With `once`, it is
+ * dropped after first coming into view. When reveal is disabled the
+ * listener is told the element is in view straight away.
+ */
+export function observeInView(element: Element, listener: InViewListener, once: boolean): void {
+  if (!isRevealEnabled()) {
+    listener(true, 0);
+    return;
+  }
+
+  watched.set(element, { listener, once });
+  getObserver().observe(element);
+}
+
+export function unobserveInView(element: Element): void {
+  watched.delete(element);
+  observer?.unobserve(element);
+}
+
+/**
+ * Inline, render-blocking script for <head>: sets data-reveal before the
+ * first paint so revealed content does not flash in and out, and takes
+ * it away again if the app never hydrates.
+ *
+ * The build step in scripts/generate-security-headers.mjs allows it in
+ * the Content-Security-Policy by hash.
+ */
+export const revealScript = `(function () {
+  var root = document.documentElement;
+  if (!('IntersectionObserver' in window) || window.matchMedia(${JSON.stringify(REDUCED_MOTION_QUERY)}).matches) return;
+  root.setAttribute(${JSON.stringify(REVEAL_ATTRIBUTE)}, '');
+  setTimeout(function () {
+    if (!root.hasAttribute(${JSON.stringify(READY_ATTRIBUTE)})) root.removeAttribute(${JSON.stringify(REVEAL_ATTRIBUTE)});
+  }, ${REVEAL_TIMEOUT_MS});
+})();`;
@@ -0,0 +1,134 @@
+/**
+ * Section Navigation
+ *
+ * Scrolling to the home page's sections (#about, #projects, ...) and
+ * working out which one is being read. Sections are the
+ * `<main> <section id>` elements; the fixed header covers the top
+ * HEADER_OFFSET pixels of the viewport, so a section is scrolled to (and
+ * counts as reached) when its top is just below the header.
+ *
+ * The URL hash follows the section being read. Hash changes go through
+ * the History API, so the browser never jumps to the element on its own:
+ * - a click on a section link pushes an entry (back returns to it)
+ * - reading on past a section replaces the current entry
+ *
+ * useSectionNavigation (src/hooks/useSectionNavigation.ts) wires this to
+ * scroll, load and back/forward.
+ */
+
+import { prefersReducedMotion } from '@/lib/motion';
+
+/** Height of the fixed header (px) */
+export const HEADER_OFFSET = 80;
+
+/** How the URL hash is updated: new history entry, current entry or not at all */
+export type HashUpdate = 'push' | 'replace' | 'none';
+
+interface ScrollToSectionOptions {
+  /** Defaults to smooth unless the visitor prefers reduced motion */
+  behavior?: ScrollBehavior;
+  hash?: HashUpdate;
+}
+
+// True from a scrollToSection() call until useSectionNavigation sees the
+// scroll settle, so the scroll spy does not overwrite the hash that was
+// just set (e.g. with #contact when #talks cannot reach the top)
+let pendingScroll = false;
+
+/**
+ * Section id of a link: "/#projects" and "#projects" give "projects"
+ */
+export function getSectionId(href: string): string | undefined {
+  const [, id] = href.split('#');
+  return id || undefined;
+}
+
+export function getSections(): HTMLElement[] {
+  return Array.from(document.querySelectorAll<HTMLElement>('main section[id]'));
+}
+
+function defaultBehavior(): ScrollBehavior {
+  return prefersReducedMotion() ? 'instant' : 'smooth';
+}
+
+/**
+ * Sets location.hash to `#id` (or removes it) without scrolling
+ */
+export function setHash(id: string | undefined, update: HashUpdate): void {
+  const url = `${window.location.pathname}${window.location.search}${id ? `#${id}` : ''}`;
+  const current = `${window.location.pathname}${window.location.search}${window.location.hash}`;
+  if (update === 'none' || url === current) return;
+
+  if (update === 'push') {
+    window.history.pushState(null, '', url);
+  } else {
+    window.history.replaceState(null, '', url);
+  }
+}
+
+/**
+ * Scrolls a section to just below the header. Returns false when the
+ * section is not on this page, so a link can navigate normally instead.
+ */
+export function scrollToSection(
+  id: string,
+  { behavior = defaultBehavior(), hash = 'push' }: ScrollToSectionOptions = {}
+): boolean {
+  const section = document.getElementById(id);
+  if (!section) return false;
+
+  const top = section.getBoundingClientRect().top + window.scrollY - HEADER_OFFSET;
+  if (Math.abs(top - window.scrollY) > 1) pendingScroll = true;
+
+  window.scrollTo({ top, behavior });
+  setHash(id, hash);
+  return true;
+}
+
+export function scrollToTop({ behavior = defaultBehavior(), hash = 'push' }: ScrollToSectionOptions = {}): void {
+  if (window.scrollY > 0) pendingScroll = true;
+
+  window.scrollTo({ top: 0, behavior });
+  setHash(undefined, hash);
+}
+
+/**
+ * Section being read: the last one whose top has reached the header, or
+ * the last section once the page cannot scroll any further
+ */
+export function getActiveSection(sections: HTMLElement[]): string | undefined {
+  if (sections.length === 0) return undefined;
+
+  const root = document.documentElement;
+  if (window.scrollY > 0 && window.innerHeight + window.scrollY >= root.scrollHeight - 1) {
+    return sections[sections.length - 1].id;
+  }
+
+  let active: string | undefined;
+  for (const section of sections) {
+    if (section.getBoundingClientRect().top > HEADER_OFFSET + 1) break;
+    active = section.id;
+  }
+  return active;
+}
+
+/**
+ * Called when scrolling settles: replaces the hash with the section being
+ * read, unless the scroll was started by scrollToSection()
+ */
+export function syncHashToSection(id: string | undefined): void {
+  if (pendingScroll) {
+    pendingScroll = false;
+    return;
+  }
+  if (id) setHash(id, 'replace');
+}
+
+/**
+ * How far the page has been scrolled, from 0 to 1
+ */
+export function getScrollProgress(): number {
+  const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+  if (scrollable <= 0) return 0;
+  return Math.min(1, Math.max(0, window.scrollY / scrollable));
+}
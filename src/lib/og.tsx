@@ -0,0 +1,174 @@
+/**
+ * Open Graph Images
+ *
+ * Branded 1200×630 share cards for the home page, every project and every
+ * post. Rendered with next/og by the static route handler at
+ * /og/[...path], so `next build` writes plain PNGs to out/og/.
+ *
+ * Layout (Satori only supports flexbox):
+ * - Tri-colour band across the top, matching the footer and background bubbles
+ * - Eyebrow (section / category), title and subtitle
+ * - Site name and URL along the bottom
+ *
+ * Uses the font bundled with next/og so the build needs no network access.
+ */
+
+import { ImageResponse } from 'next/og';
+import { projects } from '@/lib/content';
+import { getAllPosts } from '@/lib/content/posts';
+import { absoluteUrl, siteConfig } from '@/lib/site';
+import { brandColors, colors as themeColors } from '@/styles/tokens';
+
+export const ogImageSize = { width: 1200, height: 630 };
+
+export interface OgImage {
+  /** Site-relative path of the PNG, e.g. "/og/projects/my-project.png" */
+  path: string;
+  eyebrow: string;
+  title: string;
+  subtitle: string;
+}
+
+// Design token colours (dark theme + Indian flag tri-colour)
+const colors = {
+  background: themeColors.dark['bg-primary'],
+  text: themeColors.dark['text-primary'],
+  muted: themeColors.dark['text-tertiary'],
+  saffron: brandColors.saffron,
+  white: brandColors['tri-white'],
+  green: brandColors['green-india'],
+};
+
+export const ogImagePaths = {
+  home: '/og/home.png',
+  project: (slug: string) => `/og/projects/${slug}.png`,
+  post: (slug: string) => `/og/blog/${slug}.png`,
+};
+
+/**
+ * Every share card generated at build time
+ */
+export function getOgImages(): OgImage[] {
+  const home: OgImage = {
+    path: ogImagePaths.home,
+    eyebrow: 'Portfolio',
+    title: siteConfig.name,
+    subtitle: siteConfig.author.jobTitle,
+  };
+
+  const projectImages = projects.map((project) => ({
+    path: ogImagePaths.project(project.slug),
+    eyebrow: `Project · ${project.category}`,
+    title: project.title,
+    subtitle: project.description,
+  }));
+
+  const postImages = getAllPosts().map((post) => ({
+    path: ogImagePaths.post(post.slug),
+    eyebrow: 'Write-up',
+    title: post.title,
+    subtitle: post.summary,
+  }));
+
+  return [home, ...projectImages, ...postImages];
+}
+
+/**
+ * Metadata entry for `openGraph.images` / `twitter.images`
+ */
+export function ogImageMetadata(path: string, alt: string) {
+  return { url: absoluteUrl(path), ...ogImageSize, alt };
+}
+
+export function renderOgImage(image: OgImage): ImageResponse {
+  const host = absoluteUrl('/').replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          backgroundColor: colors.background,
+        }}
+      >
+        {/* Tri-colour band */}
+        <div style={{ display: 'flex', height: 16 }}>
+          <div style={{ flex: 1, backgroundColor: colors.saffron }} />
+          <div style={{ flex: 1, backgroundColor: colors.white }} />
+          <div style={{ flex: 1, backgroundColor: colors.green }} />
+        </div>
+
+        <div
+          style={{
+            flex: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'space-between',
+            padding: '64px 72px',
+          }}
+        >
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <div
+              style={{
+                fontSize: 28,
+                color: colors.saffron,
+                textTransform: 'uppercase',
+                letterSpacing: 2,
+                marginBottom: 24,
+              }}
+            >
+              {image.eyebrow}
+            </div>
+            <div
+              style={{
+                fontSize: image.title.length > 40 ? 60 : 76,
+                lineHeight: 1.15,
+                color: colors.text,
+                marginBottom: 24,
+              }}
+            >
+              {image.title}
+            </div>
+            <div
+              style={{
+                fontSize: 32,
+                lineHeight: 1.4,
+                color: colors.muted,
+                maxHeight: 135,
+                overflow: 'hidden',
+              }}
+            >
+              {image.subtitle}
+            </div>
+          </div>
+
+          {/* Footer: site name, URL and tri-colour bubbles */}
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <div style={{ display: 'flex', flexDirection: 'column' }}>
+              <div style={{ fontSize: 30, color: colors.text }}>{siteConfig.siteName}</div>
+              <div style={{ fontSize: 24, color: colors.muted }}>{host}</div>
+            </div>
+            <div style={{ display: 'flex' }}>
+              {[colors.saffron, colors.white, colors.green].map((color) => (
+                <div
+                  key={color}
+                  style={{
+                    width: 36,
+                    height: 36,
+                    marginLeft: 16,
+                    borderRadius: 18,
+                    backgroundColor: color,
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    ),
+    ogImageSize
+  );
+}
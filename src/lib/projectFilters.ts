@@ -0,0 +1,165 @@
+/**
+ * Project Filters
+ *
+ * Faceted filtering for the Projects grid.
+ *
+ * Semantics:
+ * - Categories are OR'ed together (a project has exactly one category)
+ * - Technologies are OR'ed ("any") or AND'ed ("all") depending on `match`
+ * - The two facets are AND'ed with each other
+ *
+ * Filters round-trip through the query string so a filtered view can be
+ * shared, e.g. `/?category=SAST&tech=Go&tech=Python&match=all#projects`.
+ */
+
+import type { Project } from '@/lib/content';
+
+export type MatchMode = 'any' | 'all';
+
+export interface ProjectFilters {
+  categories: string[];
+  technologies: string[];
+  match: MatchMode;
+}
+
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+// Query string keys
+const CATEGORY_PARAM = 'category';
+const TECH_PARAM = 'tech';
+const MATCH_PARAM = 'match';
+
+export const EMPTY_FILTERS: ProjectFilters = {
+  categories: [],
+  technologies: [],
+  match: 'any',
+};
+
+export function hasActiveFilters(filters: ProjectFilters): boolean {
+  return filters.categories.length > 0 || filters.technologies.length > 0;
+}
+
+function matchesCategory(project: Project, categories: string[]): boolean {
+  return categories.length === 0 || categories.includes(project.category);
+}
+
+function matchesTechnologies(project: Project, technologies: string[], match: MatchMode): boolean {
+  if (technologies.length === 0) return true;
+
+  return match === 'all'
+    ? technologies.every((tech) => project.technologies.includes(tech))
+    : technologies.some((tech) => project.technologies.includes(tech));
+}
+
+/**
+ * Returns the projects matching every active facet, in their original order
+ */
+export function filterProjects(projects: Project[], filters: ProjectFilters): Project[] {
+  return projects.filter(
+    (project) =>
+      matchesCategory(project, filters.categories) &&
+      matchesTechnologies(project, filters.technologies, filters.match)
+  );
+}
+
+/**
+ * Sorts facet options by count (descending), then alphabetically
+ */
+function toOptions(counts: Map<string, number>): FacetOption[] {
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+}
+
+/**
+ * Builds the category and technology chips with result counts.
+ *
+ * Each facet is counted against the projects matching the *other* facet,
+ * so a count tells the visitor how many projects that chip would match
+ * given the rest of the selection. Options are always listed (with a zero
+ * count) so chips do not disappear as filters change.
+ */
+export function getFacets(
+  projects: Project[],
+  filters: ProjectFilters
+): { categories: FacetOption[]; technologies: FacetOption[] } {
+  const categoryCounts = new Map<string, number>();
+  const technologyCounts = new Map<string, number>();
+
+  for (const project of projects) {
+    if (!categoryCounts.has(project.category)) categoryCounts.set(project.category, 0);
+    project.technologies.forEach((tech) => {
+      if (!technologyCounts.has(tech)) technologyCounts.set(tech, 0);
+    });
+
+    if (matchesTechnologies(project, filters.technologies, filters.match)) {
+      categoryCounts.set(project.category, (categoryCounts.get(project.category) ?? 0) + 1);
+    }
+
+    // In "all" mode a technology only adds results that already match the
+    // other selected technologies; in "any" mode every tagged project counts
+    const technologyScope = filters.match === 'all' ? filters.technologies : [];
+    if (
+      matchesCategory(project, filters.categories) &&
+      matchesTechnologies(project, technologyScope, 'all')
+    ) {
+      project.technologies.forEach((tech) => {
+        technologyCounts.set(tech, (technologyCounts.get(tech) ?? 0) + 1);
+      });
+    }
+  }
+
+  return {
+    categories: toOptions(categoryCounts),
+    technologies: toOptions(technologyCounts),
+  };
+}
+
+/**
+ * Adds `value` to `list` if absent, removes it otherwise
+ */
+export function toggleValue(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+/**
+ * Reads filters from a query string, ignoring values that no project uses
+ */
+export function parseFilters(search: string, projects: Project[]): ProjectFilters {
+  const params = new URLSearchParams(search);
+  const knownCategories = new Set(projects.map((project) => project.category));
+  const knownTechnologies = new Set(projects.flatMap((project) => project.technologies));
+
+  return {
+    categories: Array.from(new Set(params.getAll(CATEGORY_PARAM))).filter((value) =>
+      knownCategories.has(value)
+    ),
+    technologies: Array.from(new Set(params.getAll(TECH_PARAM))).filter((value) =>
+      knownTechnologies.has(value)
+    ),
+    match: params.get(MATCH_PARAM) === 'all' ? 'all' : 'any',
+  };
+}
+
+/**
+ * Writes filters into an existing query string, preserving unrelated params.
+ * Returns the new search string including the leading "?" (or "" if empty).
+ */
+export function serializeFilters(filters: ProjectFilters, search = ''): string {
+  const params = new URLSearchParams(search);
+  params.delete(CATEGORY_PARAM);
+  params.delete(TECH_PARAM);
+  params.delete(MATCH_PARAM);
+
+  filters.categories.forEach((category) => params.append(CATEGORY_PARAM, category));
+  filters.technologies.forEach((tech) => params.append(TECH_PARAM, tech));
+  if (filters.match === 'all') {
+    params.set(MATCH_PARAM, 'all');
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
@@ -0,0 +1,52 @@
+/**
+ * Research Helpers
+ *
+ * Severity scale and sort orders for the Research section. Client-safe;
+ * the file importer lives in lib/content/research.ts.
+ */
+
+import type { ResearchEntry, Severity } from '@/lib/content';
+
+export type ResearchSort = 'newest' | 'severity' | 'score';
+
+// Labels are the "research.sort.*" messages
+export const RESEARCH_SORTS: ResearchSort[] = ['newest', 'severity', 'score'];
+
+// Higher is more severe
+const SEVERITY_RANK: Record<Severity, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+  none: 0,
+};
+
+/**
+ * Qualitative rating for a CVSS v3/v4 base score
+ */
+export function severityFromScore(score: number): Severity {
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  if (score > 0) return 'low';
+  return 'none';
+}
+
+/**
+ * Returns a sorted copy. Ties fall back to the newest disclosure, and
+ * entries without a CVSS score sort last by score.
+ */
+export function sortResearch(entries: ResearchEntry[], sort: ResearchSort): ResearchEntry[] {
+  const byDate = (a: ResearchEntry, b: ResearchEntry) => b.disclosed.localeCompare(a.disclosed);
+
+  return [...entries].sort((a, b) => {
+    switch (sort) {
+      case 'severity':
+        return SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || byDate(a, b);
+      case 'score':
+        return (b.cvssScore ?? -1) - (a.cvssScore ?? -1) || byDate(a, b);
+      default:
+        return byDate(a, b);
+    }
+  });
+}
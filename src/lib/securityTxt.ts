@@ -0,0 +1,86 @@
+/**
+ * security.txt
+ *
+ * Builds /.well-known/security.txt (RFC 9116) from siteConfig so the
+ * contact address, key and policy URL match the rest of the site. The
+ * `Encryption` field is only written when public/pgp.asc exists.
+ *
+ * Expiry is enforced at build time: `next build` fails when `Expires` is
+ * in the past or less than SECURITY_TXT_MIN_VALIDITY_DAYS away, and warns
+ * when it is more than a year ahead (against the RFC's recommendation).
+ */
+
+import type { PgpKey } from '@/lib/content';
+import { DEFAULT_LOCALE, localizePath } from '@/lib/i18n';
+import { absoluteUrl, siteConfig } from '@/lib/site';
+
+export const SECURITY_TXT_PATH = '/.well-known/security.txt';
+// The policy in the default locale; security.txt takes a single Policy URL
+export const SECURITY_POLICY_PATH = localizePath(DEFAULT_LOCALE, '/security/');
+export const PGP_KEY_PATH = '/pgp.asc';
+
+export const SECURITY_TXT_MIN_VALIDITY_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fields in the order they are written; `Encryption` only with a
+ * published key (see getPgpKey)
+ */
+export function getSecurityTxtFields(pgpKey: PgpKey | null): Array<[field: string, value: string]> {
+  const fields: Array<[field: string, value: string]> = [
+    ['Contact', `mailto:${siteConfig.author.email}`],
+    ['Expires', siteConfig.security.expires],
+  ];
+  if (pgpKey) fields.push(['Encryption', absoluteUrl(PGP_KEY_PATH)]);
+
+  fields.push(
+    ['Preferred-Languages', siteConfig.security.preferredLanguages.join(', ')],
+    ['Canonical', absoluteUrl(SECURITY_TXT_PATH)],
+    ['Policy', absoluteUrl(SECURITY_POLICY_PATH)]
+  );
+  return fields;
+}
+
+/**
+ * Throws when `Expires` is malformed, past or too close; warns when it is
+ * more than a year away
+ */
+export function checkSecurityTxtExpiry(now = new Date()): void {
+  const { expires } = siteConfig.security;
+  const expiresAt = Date.parse(expires);
+
+  if (Number.isNaN(expiresAt) || !/^\d{4}-\d{2}-\d{2}T/.test(expires)) {
+    throw new Error(
+      `siteConfig.security.expires must be an ISO 8601 timestamp such as "2027-01-31T00:00:00.000Z" (got "${expires}")`
+    );
+  }
+
+  const days = Math.floor((expiresAt - now.getTime()) / DAY_MS);
+  if (days < SECURITY_TXT_MIN_VALIDITY_DAYS) {
+    throw new Error(
+      days < 0
+        ? `security.txt expired on ${expires}; move siteConfig.security.expires forward (src/lib/site.ts)`
+        : `security.txt expires on ${expires}, in ${days} day${days === 1 ? '' : 's'}; it must stay valid for at least ${SECURITY_TXT_MIN_VALIDITY_DAYS} days (siteConfig.security.expires in src/lib/site.ts)`
+    );
+  }
+
+  if (days > 365) {
+    console.warn(
+      `Warning: security.txt expires on ${expires}, more than a year ahead; RFC 9116 recommends less than a year.`
+    );
+  }
+}
+
+/**
+ * The unsigned file; comments point people to the policy page
+ */
+export function renderSecurityTxt(pgpKey: PgpKey | null): string {
+  const lines = [
+    `# Security contact for ${siteConfig.siteName}`,
+    `# Reporting guidelines and scope: ${absoluteUrl(SECURITY_POLICY_PATH)}`,
+    '',
+    ...getSecurityTxtFields(pgpKey).map(([field, value]) => `${field}: ${value}`),
+  ];
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Site Configuration
+ *
+ * Values shared by metadata, feeds and other build-time outputs that need
+ * absolute URLs.
+ *
+ * Environment overrides (set at build time):
+ * - NEXT_PUBLIC_SITE_URL  - origin the site is served from
+ *                           (default: https://jagat45106.github.io)
+ * - NEXT_PUBLIC_BASE_PATH - sub-path when deployed to a project page,
+ *                           e.g. "/portfolio"; must match next.config.js
+ * - NEXT_PUBLIC_CONTACT_TRANSPORT - contact form delivery: "http", "mailto"
+ *                           or "mock" (default: "http" when an endpoint is
+ *                           set, otherwise "mailto")
+ * - NEXT_PUBLIC_CONTACT_ENDPOINT - form endpoint for the "http" transport,
+ *                           e.g. https://formspree.io/f/<form-id>
+ * - PGP_SIGNING_KEY_FILE  - armored private key used to clearsign
+ *                           security.txt (optional, never committed)
+ * - PGP_SIGNING_KEY_PASSPHRASE - passphrase for that key, if it has one
+ *
+ * The OpenPGP public key is not configured here: it is read from
+ * public/pgp.asc, which the site owner adds (see lib/content/pgp). None
+ * is committed, so until it exists the site is built without encryption.
+ */
+
+export const siteConfig = {
+  name: 'Jagat Pradhan',
+  siteName: 'Jagat Pradhan Portfolio',
+  title: 'Jagat Pradhan | Product Security Engineer',
+  description:
+    'Portfolio showcasing expertise in Product Security, Cloud Security, and secure software development practices.',
+  language: 'en',
+  url: (process.env.NEXT_PUBLIC_SITE_URL || 'https://jagat45106.github.io').replace(/\/+$/, ''),
+  basePath: (process.env.NEXT_PUBLIC_BASE_PATH || '').replace(/\/+$/, ''),
+  author: {
+    name: 'Jagat Pradhan',
+    jobTitle: 'Product Security Engineer',
+    email: 'maajagat@gmail.com',
+    phone: '+91 9910045106',
+    location: 'India',
+    /** Hero stat shown until content/experience.json lists roles */
+    yearsOfExperience: 13,
+    bio: "I'm a passionate Product Security Engineer specializing in building secure software development lifecycles, implementing robust cloud security architectures, and integrating security seamlessly into CI/CD pipelines. With expertise in threat modelling and vulnerability management, I help organizations shift security left without compromising development velocity.",
+  },
+  contact: {
+    transport: process.env.NEXT_PUBLIC_CONTACT_TRANSPORT || '',
+    endpoint: process.env.NEXT_PUBLIC_CONTACT_ENDPOINT || '',
+    /** Endpoint served by `npm run contact:mock` */
+    mockEndpoint: 'http://localhost:8787/contact',
+    timeoutMs: 10_000,
+    retry: { attempts: 3, baseDelayMs: 1_000, maxDelayMs: 8_000 },
+    spam: {
+      /** Submissions sooner than this after the form is shown are bots */
+      minFillMs: 3_000,
+      /** Hashcash difficulty; ~65k SHA-256 hashes on average at 16 */
+      powBits: 16,
+      maxStampAgeMs: 60 * 60 * 1000,
+    },
+  },
+  /**
+   * /.well-known/security.txt (RFC 9116) and the /security/ policy page.
+   * The build fails once `expires` is less than 30 days away; RFC 9116
+   * recommends keeping it under a year ahead, so bump it every few months.
+   */
+  security: {
+    expires: '2027-09-30T00:00:00.000Z',
+    preferredLanguages: ['en'],
+  },
+  /**
+   * Authority used in tag: URIs (RFC 4151) for feed GUIDs. Kept separate
+   * from `url` so entry ids stay stable if the site moves to a new domain.
+   */
+  feedIdAuthority: 'jagat45106.github.io',
+} as const;
+
+/**
+ * Prefixes a site-relative path with the configured base path.
+ * Needed for plain <a> tags and files in public/; next/link does this itself.
+ */
+export function withBasePath(path: string): string {
+  return `${siteConfig.basePath}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+/**
+ * Absolute URL for a site-relative path, e.g. "/blog/" ->
+ * "https://jagat45106.github.io/blog/"
+ */
+export function absoluteUrl(path = '/'): string {
+  return `${siteConfig.url}${withBasePath(path)}`;
+}
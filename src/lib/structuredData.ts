@@ -0,0 +1,112 @@
+/**
+ * Structured Data (JSON-LD)
+ *
+ * schema.org descriptions of the site owner, the home page and each
+ * project, built from the same typed content as the visible components
+ * so search engines never see data that differs from the page.
+ *
+ * Nodes reference each other by `@id`, e.g. every project's `author`
+ * points at the Person node defined on the home page. Pages and projects
+ * use the URL of the locale they are rendered in; the Person has a single
+ * id on the default locale's home page.
+ */
+
+import type { Project } from '@/lib/content';
+import { projects, skillCategories, socialLinks } from '@/lib/content';
+import { DEFAULT_LOCALE, localizePath, type Locale } from '@/lib/i18n';
+import { getTranslator } from '@/lib/i18n/messages';
+import { absoluteUrl, siteConfig } from '@/lib/site';
+
+export type JsonLdNode = Record<string, unknown>;
+
+export const personId = absoluteUrl(localizePath(DEFAULT_LOCALE, '/#person'));
+
+/**
+ * Person: name, job title, contact email, social profiles and skills
+ */
+export function getPersonSchema(): JsonLdNode {
+  const knowsAbout = Array.from(
+    new Set(
+      skillCategories.flatMap((category) => [
+        category.title,
+        ...category.skills.map((skill) => skill.name),
+      ])
+    )
+  );
+
+  return {
+    '@type': 'Person',
+    '@id': personId,
+    name: siteConfig.author.name,
+    jobTitle: siteConfig.author.jobTitle,
+    email: `mailto:${siteConfig.author.email}`,
+    url: absoluteUrl(localizePath(DEFAULT_LOCALE)),
+    sameAs: socialLinks.map((link) => link.href),
+    knowsAbout,
+  };
+}
+
+/**
+ * ProfilePage for the home page, with the Person as its main entity
+ * and the projects listed as parts of the page
+ */
+export function getProfilePageSchema(locale: Locale): JsonLdNode {
+  const { t } = getTranslator(locale);
+  const url = absoluteUrl(localizePath(locale));
+  const latest = projects
+    .map((project) => project.updated ?? project.date)
+    .filter(Boolean)
+    .sort()
+    .pop();
+
+  return {
+    '@type': 'ProfilePage',
+    '@id': url,
+    url,
+    name: t('meta.title'),
+    description: t('meta.description'),
+    inLanguage: locale,
+    ...(latest && { dateModified: latest }),
+    mainEntity: { '@id': personId },
+    hasPart: projects.map((project) => ({ '@id': getProjectId(project, locale) })),
+  };
+}
+
+function getProjectId(project: Project, locale: Locale): string {
+  return absoluteUrl(localizePath(locale, `/projects/${project.slug}/#project`));
+}
+
+/**
+ * SoftwareSourceCode when the project links to a repository,
+ * otherwise a generic CreativeWork
+ */
+export function getProjectSchema(project: Project, locale: Locale): JsonLdNode {
+  const url = absoluteUrl(localizePath(locale, `/projects/${project.slug}/`));
+  const modified = project.updated ?? project.date;
+
+  return {
+    '@type': project.github ? 'SoftwareSourceCode' : 'CreativeWork',
+    '@id': getProjectId(project, locale),
+    name: project.title,
+    headline: project.description,
+    description: project.longDescription,
+    url,
+    mainEntityOfPage: url,
+    genre: project.category,
+    keywords: project.technologies.join(', '),
+    ...(project.date && { dateCreated: project.date }),
+    ...(modified && { dateModified: modified }),
+    author: { '@id': personId },
+    ...(project.github && { codeRepository: project.github }),
+  };
+}
+
+/**
+ * Wraps nodes in a single JSON-LD document
+ */
+export function toJsonLd(...nodes: JsonLdNode[]): JsonLdNode {
+  return {
+    '@context': 'https://schema.org',
+    '@graph': nodes,
+  };
+}
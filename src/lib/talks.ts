@@ -0,0 +1,52 @@
+/**
+ * Talk Helpers
+ *
+ * Type filtering and year grouping for the Talks section.
+ */
+
+import type { Talk, TalkType } from '@/lib/content';
+import { TALK_TYPES } from '@/lib/content';
+
+export type TalkFilter = TalkType | 'all';
+
+/**
+ * Filter options with the number of entries of each type;
+ * types without entries are left out. Labels are the "talks.filter.*"
+ * messages.
+ */
+export function getTalkFilters(talks: Talk[]): Array<{ value: TalkFilter; count: number }> {
+  const typeOptions = TALK_TYPES.map((type) => ({
+    value: type as TalkFilter,
+    count: talks.filter((talk) => talk.type === type).length,
+  })).filter((option) => option.count > 0);
+
+  return [{ value: 'all', count: talks.length }, ...typeOptions];
+}
+
+/**
+ * Groups talks (already sorted newest first) by calendar year
+ */
+export function groupTalksByYear(talks: Talk[]): Array<{ year: string; talks: Talk[] }> {
+  const groups: Array<{ year: string; talks: Talk[] }> = [];
+
+  for (const talk of talks) {
+    const year = talk.date.slice(0, 4);
+    const group = groups[groups.length - 1];
+
+    if (group?.year === year) {
+      group.talks.push(talk);
+    } else {
+      groups.push({ year, talks: [talk] });
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Slides hosted in public/ as a PDF can be shown in the built-in viewer;
+ * anything else is linked to directly
+ */
+export function isLocalPdf(slides: string): boolean {
+  return slides.startsWith('/') && slides.toLowerCase().endsWith('.pdf');
+}
@@ -0,0 +1,127 @@
+/**
+ * Theme
+ *
+ * Light / dark / system colour theme. The preference is stored in
+ * localStorage ('system' is stored as no value) and applied to <html> as:
+ * - data-theme: the active theme, 'light' or 'dark', used by the CSS
+ * - data-theme-preference: 'light', 'dark' or 'system'
+ *
+ * `themeScript` runs in <head> before the page paints, so the stored
+ * theme is in place before hydration and there is no flash of the light
+ * theme. After that, React reads the attributes through `useTheme`
+ * (src/hooks/useTheme.ts).
+ */
+
+export const THEME_PREFERENCES = ['light', 'dark', 'system'] as const;
+
+export type ThemePreference = (typeof THEME_PREFERENCES)[number];
+export type Theme = Exclude<ThemePreference, 'system'>;
+
+export const THEME_STORAGE_KEY = 'theme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const listeners = new Set<() => void>();
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return (THEME_PREFERENCES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Stored preference; anything unknown (or blocked storage) means 'system'
+ */
+export function getStoredPreference(): ThemePreference {
+  try {
+    const stored = window.localStorage.getItem(THEME_STORAGE_KEY);
+    return isThemePreference(stored) ? stored : 'system';
+  } catch {
+    return 'system';
+  }
+}
+
+export function resolveTheme(preference: ThemePreference): Theme {
+  if (preference !== 'system') return preference;
+  return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+}
+
+/**
+ * Sets the <html> attributes and returns the active theme
+ */
+export function applyTheme(preference: ThemePreference): Theme {
+  const theme = resolveTheme(preference);
+  const root = document.documentElement;
+  root.setAttribute('data-theme', theme);
+  root.setAttribute('data-theme-preference', preference);
+  return theme;
+}
+
+/**
+ * Stores, applies and announces a preference chosen in this tab. Other
+ * tabs pick it up from the `storage` event.
+ */
+export function setThemePreference(preference: ThemePreference): void {
+  try {
+    if (preference === 'system') {
+      window.localStorage.removeItem(THEME_STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(THEME_STORAGE_KEY, preference);
+    }
+  } catch {
+    // Storage blocked: the choice still applies until the page is reloaded
+  }
+
+  applyTheme(preference);
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Calls `listener` after the theme changes in this tab, in another tab, or
+ * through the OS setting while following the system
+ */
+export function subscribeToTheme(listener: () => void): () => void {
+  const media = window.matchMedia(DARK_QUERY);
+
+  const handleStorage = (event: StorageEvent) => {
+    // key is null when another tab clears all storage
+    if (event.key !== THEME_STORAGE_KEY && event.key !== null) return;
+    applyTheme(getStoredPreference());
+    listener();
+  };
+
+  const handleSystemChange = () => {
+    if (document.documentElement.getAttribute('data-theme-preference') !== 'system') return;
+    applyTheme('system');
+    listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  media.addEventListener('change', handleSystemChange);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+    media.removeEventListener('change', handleSystemChange);
+  };
+}
+
+/**
+ * Inline, render-blocking script for <head>. Self-contained because it
+ * runs before any bundle has loaded; it mirrors applyTheme().
+ *
+ * The build step in scripts/generate-security-headers.mjs allows it in
+ * the Content-Security-Policy by hash.
+ */
+export const themeScript = `(function () {
+  var preference = 'system';
+  try {
+    var stored = localStorage.getItem(${JSON.stringify(THEME_STORAGE_KEY)});
+    if (stored === 'light' || stored === 'dark') preference = stored;
+  } catch (e) {}
+  var theme = preference === 'system'
+    ? (window.matchMedia(${JSON.stringify(DARK_QUERY)}).matches ? 'dark' : 'light')
+    : preference;
+  var root = document.documentElement;
+  root.setAttribute('data-theme', theme);
+  root.setAttribute('data-theme-preference', preference);
+})();`;
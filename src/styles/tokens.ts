@@ -0,0 +1,360 @@
+/**
+ * Design Tokens
+ *
+ * Single source for the design system: colours for each theme, accent
+ * palettes, typography, spacing, radii, shadows, motion and z-index.
+ * lib/designTokens renders them into CSS custom properties (served as
+ * /tokens.css, see app/tokens.css/route.ts) with the same names the CSS
+ * modules use: `--color-primary`, `--space-4`, `--radius-md`, ...
+ *
+ * Contrast: the pairs in `contrastPairs` are checked against WCAG 2.1 AA
+ * for every theme while the site builds; a failing pair fails the build.
+ *
+ * Components take token names (AccentColor, SpaceToken, ...) rather than
+ * raw values, so a new palette or theme only needs to be added here.
+ */
+
+import type { Theme } from '@/lib/theme';
+
+/**
+ * Theme colours, written as `--color-<name>`
+ */
+export interface ColorTokens {
+  /* Primary palette: blue (trust, security), green (growth), orange (energy) */
+  primary: string;
+  'primary-dark': string;
+  'primary-light': string;
+  secondary: string;
+  'secondary-dark': string;
+  'secondary-light': string;
+  accent: string;
+  'accent-dark': string;
+  'accent-light': string;
+
+  /* Neutrals; `white` is the page colour, so it is near-black in dark mode */
+  white: string;
+  'gray-50': string;
+  'gray-100': string;
+  'gray-200': string;
+  'gray-300': string;
+  'gray-400': string;
+  'gray-500': string;
+  'gray-600': string;
+  'gray-700': string;
+  'gray-800': string;
+  'gray-900': string;
+
+  /* Surfaces */
+  'bg-primary': string;
+  'bg-secondary': string;
+  'bg-tertiary': string;
+  'bg-card': string;
+
+  /* Text */
+  'text-primary': string;
+  'text-secondary': string;
+  'text-tertiary': string;
+  'text-muted': string;
+
+  /* Borders */
+  border: string;
+  'border-light': string;
+}
+
+export type ColorToken = keyof ColorTokens;
+
+/**
+ * Accent palette used by cards and badges. `base` is for borders and
+ * decoration, `text` is the shade that stays readable as text.
+ */
+export interface AccentTokens {
+  base: string;
+  text: string;
+}
+
+export const colors: Record<Theme, ColorTokens> = {
+  // Light mode
+  light: {
+    primary: '#2563eb',
+    'primary-dark': '#1d4ed8',
+    'primary-light': '#3b82f6',
+    secondary: '#16a34a',
+    'secondary-dark': '#15803d',
+    'secondary-light': '#22c55e',
+    accent: '#ea580c',
+    'accent-dark': '#c2410c',
+    'accent-light': '#f97316',
+
+    white: '#ffffff',
+    'gray-50': '#f9fafb',
+    'gray-100': '#f3f4f6',
+    'gray-200': '#e5e7eb',
+    'gray-300': '#d1d5db',
+    'gray-400': '#9ca3af',
+    'gray-500': '#6b7280',
+    'gray-600': '#4b5563',
+    'gray-700': '#374151',
+    'gray-800': '#1f2937',
+    'gray-900': '#111827',
+
+    'bg-primary': '#ffffff',
+    'bg-secondary': '#f9fafb',
+    'bg-tertiary': '#f3f4f6',
+    'bg-card': '#ffffff',
+
+    'text-primary': '#111827',
+    'text-secondary': '#4b5563',
+    'text-tertiary': '#636b78',
+    'text-muted': '#68707d',
+
+    border: '#e5e7eb',
+    'border-light': '#f3f4f6',
+  },
+
+  // Dark mode - GitHub dark inspired, primary colours more vibrant
+  dark: {
+    primary: '#58a6ff',
+    'primary-dark': '#79c0ff',
+    'primary-light': '#388bfd',
+    secondary: '#3fb950',
+    'secondary-dark': '#56d364',
+    'secondary-light': '#2ea043',
+    accent: '#f97316',
+    'accent-dark': '#fb923c',
+    'accent-light': '#ea580c',
+
+    white: '#0d1117',
+    'gray-50': '#161b22',
+    'gray-100': '#21262d',
+    'gray-200': '#30363d',
+    'gray-300': '#484f58',
+    'gray-400': '#6e7681',
+    'gray-500': '#8b949e',
+    'gray-600': '#b1bac4',
+    'gray-700': '#c9d1d9',
+    'gray-800': '#e6edf3',
+    'gray-900': '#f0f6fc',
+
+    'bg-primary': '#0d1117',
+    'bg-secondary': '#161b22',
+    'bg-tertiary': '#21262d',
+    'bg-card': '#161b22',
+
+    'text-primary': '#f0f6fc',
+    'text-secondary': '#c9d1d9',
+    'text-tertiary': '#8b949e',
+    'text-muted': '#848d97',
+
+    border: '#30363d',
+    'border-light': '#21262d',
+  },
+};
+
+export const accents = {
+  blue: {
+    light: { base: '#2563eb', text: '#1d4ed8' },
+    dark: { base: '#58a6ff', text: '#79c0ff' },
+  },
+  green: {
+    light: { base: '#16a34a', text: '#15803d' },
+    dark: { base: '#3fb950', text: '#56d364' },
+  },
+  orange: {
+    light: { base: '#ea580c', text: '#c2410c' },
+    dark: { base: '#f97316', text: '#fb923c' },
+  },
+  purple: {
+    light: { base: '#8b5cf6', text: '#6d28d9' },
+    dark: { base: '#8b5cf6', text: '#a78bfa' },
+  },
+} satisfies Record<string, Record<Theme, AccentTokens>>;
+
+export type AccentColor = keyof typeof accents;
+export const ACCENT_COLORS = Object.keys(accents) as AccentColor[];
+
+/**
+ * Indian tri-colour for decorative elements, the same in both themes
+ */
+export const brandColors = {
+  saffron: '#ff9933',
+  'tri-white': '#ffffff',
+  'green-india': '#138808',
+};
+
+/**
+ * Background bubble palettes for AnimatedBubbles (canvas, not CSS), per
+ * theme. Bubbles take the colours in turn. Each is a radial gradient of
+ * `rgb` from `core` alpha at the highlight to `rim` alpha at the edge,
+ * with a `glow` px soft edge, drawn at `opacity`.
+ */
+export interface BubbleTokens {
+  rgb: string;
+  core: number;
+  rim: number;
+  glow: number;
+  opacity: number;
+}
+
+export const bubblePalettes: Record<Theme, BubbleTokens[]> = {
+  light: [
+    { rgb: '255, 153, 51', core: 0.4, rim: 0.1, glow: 20, opacity: 0.15 },
+    // Grey stands in for white so it shows on the light page
+    { rgb: '200, 200, 200', core: 0.5, rim: 0.15, glow: 20, opacity: 0.2 },
+    { rgb: '19, 136, 8', core: 0.4, rim: 0.1, glow: 20, opacity: 0.15 },
+  ],
+  dark: [
+    { rgb: '255, 153, 51', core: 0.5, rim: 0.15, glow: 40, opacity: 0.25 },
+    { rgb: '88, 166, 255', core: 0.4, rim: 0.1, glow: 40, opacity: 0.3 },
+    { rgb: '63, 185, 80', core: 0.5, rim: 0.15, glow: 40, opacity: 0.25 },
+  ],
+};
+
+/**
+ * Glow colours for effects, written as `--glow-<name>`
+ */
+export const glows: Record<Theme, Record<'primary' | 'secondary' | 'accent', string>> = {
+  light: {
+    primary: 'rgba(37, 99, 235, 0.5)',
+    secondary: 'rgba(34, 197, 94, 0.5)',
+    accent: 'rgba(249, 115, 22, 0.5)',
+  },
+  dark: {
+    primary: 'rgba(88, 166, 255, 0.6)',
+    secondary: 'rgba(63, 185, 80, 0.6)',
+    accent: 'rgba(249, 115, 22, 0.6)',
+  },
+};
+
+export type ShadowToken = 'sm' | 'md' | 'lg' | 'xl' | 'glow-sm' | 'glow-md' | 'glow-lg';
+
+export const shadows: Record<Theme, Record<ShadowToken, string>> = {
+  light: {
+    sm: '0 1px 2px 0 rgba(0, 0, 0, 0.05)',
+    md: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -2px rgba(0, 0, 0, 0.1)',
+    lg: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -4px rgba(0, 0, 0, 0.1)',
+    xl: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 8px 10px -6px rgba(0, 0, 0, 0.1)',
+    'glow-sm': '0 0 10px var(--glow-primary)',
+    'glow-md': '0 0 20px var(--glow-primary), 0 0 40px var(--glow-secondary)',
+    'glow-lg': '0 0 30px var(--glow-primary), 0 0 60px var(--glow-secondary)',
+  },
+  dark: {
+    sm: '0 1px 2px 0 rgba(0, 0, 0, 0.3)',
+    md: '0 4px 6px -1px rgba(0, 0, 0, 0.4), 0 2px 4px -2px rgba(0, 0, 0, 0.3)',
+    lg: '0 10px 15px -3px rgba(0, 0, 0, 0.4), 0 4px 6px -4px rgba(0, 0, 0, 0.3)',
+    xl: '0 20px 25px -5px rgba(0, 0, 0, 0.5), 0 8px 10px -6px rgba(0, 0, 0, 0.4)',
+    'glow-sm': '0 0 15px var(--glow-primary)',
+    'glow-md': '0 0 25px var(--glow-primary), 0 0 50px var(--glow-secondary)',
+    'glow-lg': '0 0 40px var(--glow-primary), 0 0 80px var(--glow-secondary)',
+  },
+};
+
+export const fontFamily = "'Roboto', 'Open Sans', -apple-system, BlinkMacSystemFont, sans-serif";
+
+export const fontSizes = {
+  xs: '0.75rem',
+  sm: '0.875rem',
+  base: '1rem',
+  lg: '1.125rem',
+  xl: '1.25rem',
+  '2xl': '1.5rem',
+  '3xl': '1.875rem',
+  '4xl': '2.25rem',
+  '5xl': '3rem',
+};
+
+export type FontSizeToken = keyof typeof fontSizes;
+
+export const space = {
+  1: '0.25rem',
+  2: '0.5rem',
+  3: '0.75rem',
+  4: '1rem',
+  5: '1.25rem',
+  6: '1.5rem',
+  8: '2rem',
+  10: '2.5rem',
+  12: '3rem',
+  16: '4rem',
+  20: '5rem',
+  24: '6rem',
+};
+
+export type SpaceToken = keyof typeof space;
+
+export const radii = {
+  sm: '0.25rem',
+  md: '0.5rem',
+  lg: '0.75rem',
+  xl: '1rem',
+  full: '9999px',
+};
+
+export type RadiusToken = keyof typeof radii;
+
+/**
+ * Transitions use ease-in-out throughout; 0.3-0.5s for micro-interactions
+ */
+export const motion = {
+  fast: '0.15s ease-in-out',
+  normal: '0.3s ease-in-out',
+  slow: '0.5s ease-in-out',
+};
+
+export type MotionToken = keyof typeof motion;
+
+export const zIndex = {
+  dropdown: 1000,
+  sticky: 1020,
+  fixed: 1030,
+  modal: 1040,
+  tooltip: 1050,
+};
+
+/**
+ * WCAG 2.1 AA minimums: 4.5:1 for body text, 3:1 for large text and for
+ * non-text UI such as borders that carry meaning
+ */
+export const WCAG_AA = { text: 4.5, large: 3, ui: 3 } as const;
+
+export interface ContrastPair {
+  foreground: ColorToken | `accent:${AccentColor}:${keyof AccentTokens}`;
+  background: ColorToken | `accent:${AccentColor}:${keyof AccentTokens}`;
+  level: keyof typeof WCAG_AA;
+}
+
+const TEXT_COLORS: ColorToken[] = [
+  'text-primary',
+  'text-secondary',
+  'text-tertiary',
+  'text-muted',
+  'primary',
+  'primary-dark',
+  'secondary-dark',
+  'accent-dark',
+];
+
+const SURFACES: ColorToken[] = ['bg-primary', 'bg-secondary', 'bg-tertiary', 'bg-card'];
+
+/**
+ * Every text colour on every surface, filled buttons and tags, and the
+ * accent palettes. Checked in each theme.
+ */
+export const contrastPairs: ContrastPair[] = [
+  ...TEXT_COLORS.flatMap((foreground) =>
+    SURFACES.map((background): ContrastPair => ({ foreground, background, level: 'text' }))
+  ),
+  // Filled buttons and active filter chips
+  { foreground: 'white', background: 'primary', level: 'text' },
+  { foreground: 'white', background: 'primary-dark', level: 'text' },
+  { foreground: 'bg-primary', background: 'text-primary', level: 'text' },
+  ...ACCENT_COLORS.flatMap((accent): ContrastPair[] => [
+    ...SURFACES.map((background): ContrastPair => ({
+      foreground: `accent:${accent}:text`,
+      background,
+      level: 'text',
+    })),
+    // Tags filled with the accent on card hover
+    { foreground: 'white', background: `accent:${accent}:text`, level: 'text' },
+    { foreground: `accent:${accent}:base`, background: 'bg-card', level: 'ui' },
+  ]),
+];
@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  createChallenge,
+  leadingZeroBits,
+  mintStamp,
+  parseStamp,
+  parseStampDate,
+  stampStrength,
+} from '@/lib/contact/hashcash';
+import type { ContactMessage, ContactSubmission } from '@/lib/contact/types';
+import { verifySubmission, type VerifyOptions } from '@/lib/contact/verify';
+
+// Low enough that every stamp mints in a few milliseconds
+const BITS = 8;
+
+const NOW = Date.UTC(2025, 0, 15, 12, 0, 0);
+
+const message: ContactMessage = {
+  name: 'Test Sender',
+  email: 'Sender@Example.com',
+  message: 'Hello there',
+};
+
+async function mint(content: ContactMessage = message, mintedAt = NOW - 60_000): Promise<string> {
+  const stamp = await mintStamp(await createChallenge(content, BITS, new Date(mintedAt)));
+  assert.ok(stamp);
+  return stamp;
+}
+
+async function submission(
+  overrides: Partial<ContactSubmission> = {}
+): Promise<ContactSubmission> {
+  return {
+    ...message,
+    _gotcha: '',
+    startedAt: NOW - 120_000,
+    stamp: await mint(),
+    ...overrides,
+  };
+}
+
+function verify(body: unknown, options: VerifyOptions = {}) {
+  return verifySubmission(body, { bits: BITS, now: NOW, ...options });
+}
+
+describe('mintStamp', () => {
+  it('finds a stamp with at least the requested leading zero bits', async () => {
+    const stamp = await mint();
+
+    assert.ok((await stampStrength(stamp)) >= BITS);
+  });
+
+  it('stops when onProgress returns false', async () => {
+    const challenge = await createChallenge(message, 64, new Date(NOW));
+
+    assert.equal(await mintStamp(challenge, () => false), null);
+  });
+});
+
+describe('leadingZeroBits', () => {
+  it('counts zero bits across bytes', () => {
+    assert.equal(leadingZeroBits(new Uint8Array([0, 0x10, 0xff])), 11);
+    assert.equal(leadingZeroBits(new Uint8Array([0, 0])), 16);
+  });
+});
+
+describe('parseStamp', () => {
+  it('round-trips a minted stamp', async () => {
+    const stamp = parseStamp(await mint());
+
+    assert.ok(stamp);
+    assert.equal(stamp.version, '1');
+    assert.equal(stamp.bits, BITS);
+    assert.equal(stamp.resource, 'sender@example.com');
+    assert.equal(parseStampDate(stamp.date), NOW - 60_000);
+  });
+
+  it('keeps a resource containing colons intact', async () => {
+    const email = '"a:b"@example.com';
+    const raw = await mint({ ...message, email });
+
+    assert.equal(raw.split(':').length, 7);
+    assert.equal(parseStamp(raw)?.resource, email);
+  });
+
+  it('rejects malformed stamps', () => {
+    assert.equal(parseStamp('1:8:250115120000:a@example.com:ext:rand'), null);
+    assert.equal(parseStamp('2:8:250115120000:a%40example.com:ext:rand:0'), null);
+    assert.equal(parseStamp('1:x:250115120000:a%40example.com:ext:rand:0'), null);
+    assert.equal(parseStamp('1:8:250115120000:%E0%A4%A:ext:rand:0'), null);
+  });
+});
+
+describe('verifySubmission', () => {
+  it('accepts a well-formed submission', async () => {
+    const body = await submission();
+
+    assert.deepEqual(await verify(body), { ok: true, submission: body });
+  });
+
+  it('rejects bodies missing fields', async () => {
+    assert.deepEqual(await verify({ name: 'x' }), { ok: false, reason: 'malformed' });
+  });
+
+  it('rejects a filled honeypot', async () => {
+    const result = await verify(await submission({ _gotcha: 'https://spam.example' }));
+
+    assert.deepEqual(result, { ok: false, reason: 'honeypot' });
+  });
+
+  it('rejects forms sent too soon after they were shown', async () => {
+    const result = await verify(await submission({ startedAt: NOW - 1_000 }));
+
+    assert.deepEqual(result, { ok: false, reason: 'too-fast' });
+  });
+
+  it('rejects a missing or unparseable stamp', async () => {
+    assert.deepEqual(await verify(await submission({ stamp: '' })), {
+      ok: false,
+      reason: 'missing-stamp',
+    });
+    assert.deepEqual(await verify(await submission({ stamp: 'not-a-stamp' })), {
+      ok: false,
+      reason: 'invalid-stamp',
+    });
+  });
+
+  it('rejects stamps with less work than required', async () => {
+    const result = await verify(await submission(), { bits: BITS + 1 });
+
+    assert.deepEqual(result, { ok: false, reason: 'insufficient-work' });
+  });
+
+  it('rejects stale and future-dated stamps', async () => {
+    const stale = await submission({ stamp: await mint(message, NOW - 2 * 60 * 60 * 1000) });
+    const future = await submission({ stamp: await mint(message, NOW + 60 * 60 * 1000) });
+
+    assert.deepEqual(await verify(stale), { ok: false, reason: 'stale-stamp' });
+    assert.deepEqual(await verify(future), { ok: false, reason: 'stale-stamp' });
+  });
+
+  it('rejects a stamp minted for another sender or message', async () => {
+    const otherSender = await submission({
+      stamp: await mint({ ...message, email: 'other@example.com' }),
+    });
+    const otherMessage = await submission({ message: 'Edited after minting' });
+
+    assert.deepEqual(await verify(otherSender), { ok: false, reason: 'stamp-mismatch' });
+    assert.deepEqual(await verify(otherMessage), { ok: false, reason: 'stamp-mismatch' });
+  });
+
+  it('rejects a replayed stamp', async () => {
+    const seen = new Set<string>();
+    const isReplay = (stamp: string) => {
+      if (seen.has(stamp)) return true;
+      seen.add(stamp);
+      return false;
+    };
+    const body = await submission();
+
+    assert.equal((await verify(body, { isReplay })).ok, true);
+    assert.deepEqual(await verify(body, { isReplay }), { ok: false, reason: 'replayed-stamp' });
+  });
+});
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { ContentValidationError } from '@/lib/content/schema';
+import { getResearchEntries } from '@/lib/content/research';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'research');
+
+const tempDirs: string[] = [];
+after(() => tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true })));
+
+/**
+ * Writes `files` to a fresh temporary directory
+ */
+function withFiles(files: Record<string, unknown>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'research-'));
+  tempDirs.push(dir);
+  for (const [name, data] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), JSON.stringify(data));
+  }
+  return dir;
+}
+
+describe('getResearchEntries', () => {
+  it('imports CVE records, flat JSON and CSV exports, newest first', () => {
+    const entries = getResearchEntries(FIXTURES);
+
+    assert.deepEqual(
+      entries.map((entry) => entry.id),
+      ['GHSA-0000-0000-0001', 'CVE-0000-0003', 'CVE-0000-0001', '1000001']
+    );
+  });
+
+  it('normalises CVE records', () => {
+    const [, latest, withAdvisory] = getResearchEntries(FIXTURES);
+
+    assert.deepEqual(withAdvisory, {
+      id: 'CVE-0000-0001',
+      kind: 'cve',
+      title: 'Example path traversal',
+      product: 'Example Product',
+      severity: 'high',
+      cvssScore: 8.1,
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:N',
+      disclosed: '2024-04-08',
+      url: 'https://example.com/advisories/1',
+    });
+
+    // Prefers CVSS v4 and falls back to the description, vendor and cve.org
+    assert.equal(latest.cvssScore, 9.2);
+    assert.equal(latest.severity, 'critical');
+    assert.equal(latest.title, 'Example server-side request forgery');
+    assert.equal(latest.product, 'example-vendor');
+    assert.equal(latest.url, 'https://www.cve.org/CVERecord?id=CVE-0000-0003');
+  });
+
+  it('maps flat columns and derives severity from the score or priority', () => {
+    const entries = getResearchEntries(FIXTURES);
+    const advisory = entries.find((entry) => entry.id === 'GHSA-0000-0000-0001');
+    const bounty = entries.find((entry) => entry.id === '1000001');
+
+    assert.equal(advisory?.kind, 'advisory');
+    assert.equal(advisory?.severity, 'medium');
+    assert.equal(bounty?.kind, 'bounty');
+    assert.equal(bounty?.title, 'Example report, with a comma');
+    assert.equal(bounty?.severity, 'high');
+    assert.equal(bounty?.cvssScore, undefined);
+  });
+
+  it('returns nothing for a missing or empty directory', () => {
+    assert.deepEqual(getResearchEntries(path.join(FIXTURES, 'missing')), []);
+    assert.deepEqual(getResearchEntries(withFiles({})), []);
+  });
+
+  it('reports the index of an invalid record after a rejected CVE', () => {
+    const dir = withFiles({
+      'cves.json': [
+        { dataType: 'CVE_RECORD', cveMetadata: { cveId: 'CVE-0000-0002', state: 'REJECTED' } },
+        { dataType: 'CVE_RECORD', cveMetadata: { cveId: 'CVE-0000-0004', state: 'PUBLISHED' } },
+      ],
+    });
+
+    assert.throws(
+      () => getResearchEntries(dir),
+      (error: unknown) =>
+        error instanceof ContentValidationError && error.field === '[1].title'
+    );
+  });
+
+  it('rejects links that are not http(s) URLs', () => {
+    const dir = withFiles({
+      'bounty.json': [
+        {
+          id: '1000002',
+          title: 'Example',
+          program: 'example',
+          severity: 'low',
+          disclosed: '2024-01-01',
+          url: 'javascript:alert(1)',
+        },
+      ],
+    });
+
+    assert.throws(
+      () => getResearchEntries(dir),
+      (error: unknown) => error instanceof ContentValidationError && error.field === '[0].url'
+    );
+  });
+
+  it('rejects ids repeated across files', () => {
+    const entry = {
+      id: '1000003',
+      title: 'Example',
+      program: 'example',
+      severity: 'low',
+      disclosed: '2024-01-01',
+      url: 'https://example.com/reports/1000003',
+    };
+    const dir = withFiles({ 'a.json': [entry], 'b.json': [entry] });
+
+    assert.throws(() => getResearchEntries(dir), /duplicates an entry in .*a\.json/);
+  });
+});